@@ -0,0 +1,73 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Whoever asked for a change: the MCP client of the session that called a
+// tool (as named in its initialize handshake), the CLI, or nobody for the
+// server's own maintenance (purging the trash, sweeping expired memories)
+export interface AuditActor {
+  client_name: string | null;
+  client_version: string | null;
+  // Tool or CLI command that made the change
+  tool: string | null;
+  arguments: unknown;
+}
+
+export type AuditOperation =
+  | 'created'
+  | 'updated'
+  | 'merged'
+  | 'deleted'
+  | 'restored'
+  | 'imported'
+  | 'purged'
+  | 'expired'
+  | 'linked'
+  | 'unlinked';
+
+// One row of a store's append-only audit log. Content is the memory's text
+// before and after the change; either is null when the memory was not live
+// on that side of it.
+export interface AuditEntry extends AuditActor {
+  id: number;
+  occurred_at: string;
+  memory_id: number;
+  operation: AuditOperation;
+  // For link changes: the other memory and the relation
+  related_id: number | null;
+  detail: string | null;
+  before_content: string | null;
+  after_content: string | null;
+}
+
+// What a write method records; the actor comes from the current scope
+export interface AuditRecord {
+  operation: AuditOperation;
+  memory_id: number;
+  related_id?: number;
+  detail?: string;
+  before?: string | null;
+  after?: string | null;
+}
+
+export interface AuditQuery {
+  // Entries about this memory, including links from or to it
+  memory_id?: number;
+  operation?: AuditOperation;
+  // ISO 8601 bounds on occurred_at: since is inclusive, until exclusive
+  since?: string;
+  until?: string;
+  limit: number;
+}
+
+const NO_ACTOR: AuditActor = { client_name: null, client_version: null, tool: null, arguments: null };
+
+const actorScope = new AsyncLocalStorage<AuditActor>();
+
+// Attributes every change fn makes, in any store, to actor. Nested calls
+// override only the fields they set.
+export function runAs<T>(actor: Partial<AuditActor>, fn: () => Promise<T>): Promise<T> {
+  return actorScope.run({ ...currentActor(), ...actor }, fn);
+}
+
+export function currentActor(): AuditActor {
+  return actorScope.getStore() ?? NO_ACTOR;
+}
@@ -0,0 +1,443 @@
+import { readFile, writeFile, mkdtemp, rm } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, parseArgs, parseKeySource, InkedConfig, ParsedArgs } from './config.js';
+import { StoreRegistry, MemoryStore } from './stores.js';
+import { DatabaseManager, Memory, MemoryFilters } from './database.js';
+import type { SearchResult } from './search.js';
+import { writeKeyFile } from './encryption.js';
+import { runAs } from './audit.js';
+import { lockForRewrite } from './locks.js';
+import {
+  TransferFormat,
+  ImportMode,
+  detectFormat,
+  exportMemories,
+  parseExport,
+  importMemories,
+  formatImportReport,
+} from './transfer.js';
+
+const USAGE = `Usage:
+  inked [serve] [options]                 Start the MCP server (stdio)
+  inked list [--limit <n>] [--offset <n>] [--sort newest|oldest] [--namespace <ns>] [--tags <a,b>]
+  inked search <query> [--limit <n>] [--namespace <ns>] [--tags <a,b>]
+  inked add [<text>] [--tags <a,b>] [--namespace <ns>] [--importance <1-5>] [--pinned]
+                                          Save a memory (text from stdin when not given)
+  inked rm <id>...                        Move memories to the trash
+  inked edit <id>                         Edit a memory in $VISUAL or $EDITOR
+  inked stats                             Counts, tags and size of the store
+  inked export [--format json|jsonl|markdown] [--output <file>]
+  inked import <file> [--format json|jsonl|markdown] [--mode merge|replace]
+  inked keygen <file>                     Write a new random key file
+  inked encrypt                           Encrypt a plain-text store with INKED_PASSPHRASE or --key-file
+  inked rotate-key [--new-key-file <file>]  Re-encrypt with a new key file or INKED_NEW_PASSPHRASE
+  inked decrypt                           Turn an encrypted store back into plain text
+
+Options:
+  --json              Print machine-readable JSON (list, search, add, rm, edit, stats)
+  --store <name>      Memory store to use (env INKED_STORE, default "default")
+  --data-dir <dir>    Directory holding the stores (env INKED_DIR, default ~/.inked)
+  --db-path <file>    Database file for the selected store (env INKED_DB_PATH)
+  --key-file <file>   Key for encrypted stores (env INKED_KEY_FILE); or set INKED_PASSPHRASE
+  --transport <stdio|http>  Serve one client over stdio or many over localhost HTTP (env INKED_TRANSPORT, default stdio)
+  --port <n>          Port for --transport http (env INKED_PORT, default 7583); clients send INKED_HTTP_TOKEN as a bearer token
+  --purge-after-days <n>  Days deleted memories stay in the trash (env INKED_PURGE_AFTER_DAYS, default 30)
+  --use-embeddings[=local|hash]  Semantic search over embeddings (env INKED_EMBEDDINGS)
+  --embedding-model <dir>  Local model directory for --use-embeddings (env INKED_EMBEDDING_MODEL)
+  --fusion <rrf|weighted>  How text and vector rankings are fused (env INKED_FUSION, default rrf)
+  --fusion-weights <lexical=1,vector=1>  Per-matcher fusion weights; 0 disables one (env INKED_FUSION_WEIGHTS)
+  --on-duplicate <reject|merge|flag|allow>  What the write tool does with near-duplicates (env INKED_ON_DUPLICATE, default flag)
+  --duplicate-threshold <0-1>  Similarity at which memories count as duplicates (env INKED_DUPLICATE_THRESHOLD, default 0.85)
+  --recency-weight <n>  Ranking boost for recently written memories (env INKED_RECENCY_WEIGHT, default 0)
+  --usage-weight <n>  Ranking boost for frequently read memories (env INKED_USAGE_WEIGHT, default 0)
+  --half-life-days <n>  Days for the recency and usage boosts to halve (env INKED_HALF_LIFE_DAYS, default 30)
+  --language <en|de>  Stop words and stemmer for memories without a language (env INKED_LANGUAGE, default en)`;
+
+const COMMANDS = new Set([
+  'list', 'search', 'add', 'rm', 'edit', 'stats',
+  'export', 'import', 'keygen', 'encrypt', 'rotate-key', 'decrypt',
+  'help', '--help', '-h'
+]);
+
+// Commands that only read, so opening the store skips its write-side upkeep
+const READ_COMMANDS = new Set(['list', 'search', 'stats', 'export']);
+
+// Flags that stand alone, so "inked add --pinned text" keeps text as the memory
+const BOOLEAN_FLAGS = new Set(['json', 'pinned']);
+
+const DEFAULT_LIST_LIMIT = 20;
+
+const DEFAULT_SEARCH_LIMIT = 5;
+
+export function isCliCommand(args: string[]): boolean {
+  return args.length > 0 && COMMANDS.has(args[0]);
+}
+
+function parseFormat(value: string | undefined, path?: string): TransferFormat {
+  const format = value ?? (path ? detectFormat(path) : undefined) ?? 'json';
+  if (format !== 'json' && format !== 'jsonl' && format !== 'markdown') {
+    throw new Error(`Unknown format "${format}". Use json, jsonl or markdown.`);
+  }
+  return format;
+}
+
+function parseMode(value: string | undefined): ImportMode {
+  const mode = value ?? 'merge';
+  if (mode !== 'merge' && mode !== 'replace') {
+    throw new Error(`Unknown import mode "${mode}". Use merge or replace.`);
+  }
+  return mode;
+}
+
+function parseInteger(name: string, value: string | undefined, fallback: number, min: number, max: number = Infinity): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid value "${value}" for ${name}: expected a whole number from ${min}${max === Infinity ? '' : ` to ${max}`}`);
+  }
+  return parsed;
+}
+
+function parseIds(positional: string[], command: string): number[] {
+  if (positional.length === 0) {
+    throw new Error(`${command} needs a memory ID, e.g. inked ${command} 12`);
+  }
+  return positional.map(value => parseInteger('ID', value, 0, 1));
+}
+
+// "--tags a,b" narrows to memories carrying every listed tag
+function parseFilters(options: Map<string, string>): MemoryFilters {
+  return {
+    namespace: options.get('namespace'),
+    tags: options.get('tags')?.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
+  };
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+// One line per memory: id, date, namespace, pin, first line of text, tags
+function formatMemoryLine(memory: Memory, relevance?: number): string {
+  const firstLine = memory.content.split('\n')[0];
+  const text = firstLine.length > 80 ? `${firstLine.substring(0, 80)}...` : firstLine;
+  const details = [
+    memory.created_at.slice(0, 10),
+    memory.namespace,
+    memory.pinned ? 'pinned' : undefined,
+    relevance !== undefined ? `relevance ${relevance}` : undefined
+  ].filter(Boolean).join(', ');
+  const tags = memory.tags.length > 0 ? `  [${memory.tags.join(', ')}]` : '';
+  return `#${memory.id} (${details}) ${text}${tags}`;
+}
+
+async function listCommand(store: MemoryStore, { options }: ParsedArgs, json: boolean): Promise<void> {
+  const sort = options.get('sort') ?? 'newest';
+  if (sort !== 'newest' && sort !== 'oldest') {
+    throw new Error(`Unknown sort "${sort}". Use newest or oldest.`);
+  }
+  const memories = await store.db.listMemories(
+    parseInteger('--limit', options.get('limit'), DEFAULT_LIST_LIMIT, 1),
+    parseFilters(options),
+    parseInteger('--offset', options.get('offset'), 0, 0),
+    sort
+  );
+
+  if (json) {
+    printJson(memories);
+  } else if (memories.length === 0) {
+    console.log('No memories found.');
+  } else {
+    memories.forEach(memory => console.log(formatMemoryLine(memory)));
+  }
+}
+
+async function searchCommand(store: MemoryStore, { positional, options }: ParsedArgs, json: boolean): Promise<void> {
+  const query = positional.join(' ').trim();
+  if (!query) {
+    throw new Error('search needs a query, e.g. inked search "editor preferences"');
+  }
+
+  const results: SearchResult[] = await store.searchEngine.searchMemories(
+    query,
+    parseInteger('--limit', options.get('limit'), DEFAULT_SEARCH_LIMIT, 1),
+    parseFilters(options)
+  );
+
+  if (json) {
+    printJson(results.map(({ explanation, ...result }) => result));
+  } else if (results.length === 0) {
+    console.log(`No memories found matching "${query}".`);
+  } else {
+    results.forEach(result => console.log(formatMemoryLine(result, Math.round(result.relevanceScore * 100) / 100)));
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function addCommand(store: MemoryStore, { positional, options }: ParsedArgs, json: boolean): Promise<void> {
+  const content = (positional.length > 0 ? positional.join(' ') : process.stdin.isTTY ? '' : await readStdin()).trim();
+  if (!content) {
+    throw new Error('add needs the memory text, e.g. inked add "Prefers tabs over spaces" or echo ... | inked add');
+  }
+
+  const { namespace, tags } = parseFilters(options);
+  const id = await store.db.addMemory(content, {
+    namespace,
+    tags,
+    importance: options.has('importance') ? parseInteger('--importance', options.get('importance'), 0, 1, 5) : undefined,
+    pinned: options.get('pinned') === 'true'
+  });
+
+  if (json) {
+    printJson({ id });
+  } else {
+    console.log(`Saved memory #${id}`);
+  }
+}
+
+async function rmCommand(store: MemoryStore, { positional }: ParsedArgs, json: boolean): Promise<void> {
+  const deleted: number[] = [];
+  const missing: number[] = [];
+  for (const id of parseIds(positional, 'rm')) {
+    (await store.db.deleteMemory(id) ? deleted : missing).push(id);
+  }
+
+  if (json) {
+    printJson({ deleted, missing });
+  } else if (deleted.length > 0) {
+    console.log(`Moved ${deleted.map(id => `#${id}`).join(', ')} to the trash`);
+  }
+  if (missing.length > 0) {
+    throw new Error(`No memory with ID ${missing.join(', ')}`);
+  }
+}
+
+// The memory goes through a private temp file, which is removed afterwards
+async function editCommand(store: MemoryStore, { positional }: ParsedArgs, json: boolean): Promise<void> {
+  const [id] = parseIds(positional, 'edit');
+  const memory = await store.db.getMemory(id);
+  if (!memory) {
+    throw new Error(`No memory with ID ${id}`);
+  }
+
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const dir = await mkdtemp(join(tmpdir(), 'inked-'));
+  const file = join(dir, `memory-${id}.md`);
+  let edited: string;
+  try {
+    await writeFile(file, `${memory.content}\n`, { mode: 0o600 });
+    // Through the shell so editors configured with arguments ("code --wait") work
+    const result = spawnSync(`${editor} "${file}"`, { shell: true, stdio: 'inherit' });
+    if (result.error || result.status !== 0) {
+      throw new Error(`Editor "${editor}" exited with ${result.error?.message ?? `status ${result.status}`}; nothing saved`);
+    }
+    edited = (await readFile(file, 'utf8')).trim();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  if (!edited) {
+    throw new Error(`Memory #${id} was left empty; nothing saved. Use inked rm ${id} to delete it.`);
+  }
+  const updated = edited !== memory.content.trim() && await store.db.updateMemory(id, edited);
+
+  if (json) {
+    printJson({ id, updated });
+  } else {
+    console.log(updated ? `Updated memory #${id}` : `No changes to memory #${id}`);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function statsCommand(store: MemoryStore, json: boolean): Promise<void> {
+  const stats = await store.db.getStats();
+  if (json) {
+    printJson({ store: store.name, path: store.db.dbPath, ...stats });
+    return;
+  }
+
+  const lines = [
+    `Store "${store.name}" (${store.db.dbPath})`,
+    `  Memories:   ${stats.memories} (${stats.pinned} pinned, ${stats.expiring} expiring)`,
+    `  Trash:      ${stats.trashed}`,
+    `  Revisions:  ${stats.revisions}`,
+    `  Links:      ${stats.links}`,
+    `  Embeddings: ${stats.embeddings}`
+  ];
+  if (stats.oldest) {
+    lines.push(`  Written:    ${stats.oldest} to ${stats.newest}`);
+  }
+  if (stats.namespaces.length > 0) {
+    lines.push(`  Namespaces: ${stats.namespaces.map(({ namespace, count }) => `${namespace} (${count})`).join(', ')}`);
+  }
+  if (stats.tags.length > 0) {
+    lines.push(`  Top tags:   ${stats.tags.map(({ tag, count }) => `${tag} (${count})`).join(', ')}`);
+  }
+  lines.push(
+    `  Encrypted:  ${stats.encrypted ? 'yes' : 'no'}`,
+    `  Schema:     v${stats.schema_version}, ${formatBytes(stats.size_bytes)}`
+  );
+  console.log(lines.join('\n'));
+}
+
+async function exportCommand(store: MemoryStore, { options }: ParsedArgs): Promise<void> {
+  const output = options.get('output');
+  const format = parseFormat(options.get('format'), output);
+  const data = await exportMemories(store.db, format);
+
+  if (output) {
+    await writeFile(output, data, 'utf8');
+    console.error(`Exported memories to ${output} (${format})`);
+  } else {
+    process.stdout.write(data);
+  }
+}
+
+async function importCommand(store: MemoryStore, { positional, options }: ParsedArgs): Promise<void> {
+  const [file] = positional;
+  if (!file) {
+    throw new Error('import needs a file to read, e.g. inked import memories.json');
+  }
+
+  const format = parseFormat(options.get('format'), file);
+  const records = parseExport(await readFile(file, 'utf8'), format);
+  const report = await importMemories(store.db, records, parseMode(options.get('mode')));
+  console.log(formatImportReport(report));
+}
+
+async function keygenCommand({ positional }: ParsedArgs): Promise<void> {
+  const [file] = positional;
+  if (!file) {
+    throw new Error('keygen needs a file to write, e.g. inked keygen ~/.inked-key');
+  }
+  await writeKeyFile(file);
+  console.error(`Wrote a new key to ${file}. Keep a copy somewhere safe: without it the store cannot be read.`);
+}
+
+// encrypt, rotate-key and decrypt rewrite every memory of the selected store,
+// so they refuse to run while a server or another command has it open.
+async function encryptionCommand(command: string, config: InkedConfig, { options }: ParsedArgs): Promise<void> {
+  const stores = new StoreRegistry(config);
+  const path = stores.storePath(config.defaultStore);
+
+  let current = config.encryption;
+  let target = config.encryption;
+  if (command === 'encrypt') {
+    if (!target) {
+      throw new Error('encrypt needs a key: set INKED_PASSPHRASE or pass --key-file');
+    }
+    current = undefined;
+  } else if (command === 'rotate-key') {
+    target = parseKeySource(options.get('new-key-file'), process.env.INKED_NEW_PASSPHRASE, {
+      keyFile: '--new-key-file',
+      passphrase: 'INKED_NEW_PASSPHRASE'
+    });
+    if (!target) {
+      throw new Error('rotate-key needs the new key: set INKED_NEW_PASSPHRASE or pass --new-key-file');
+    }
+  } else {
+    target = undefined;
+  }
+
+  const release = await lockForRewrite(path);
+  const db = new DatabaseManager(path, current);
+  try {
+    await db.initialize();
+    if (command !== 'encrypt' && !db.encrypted) {
+      throw new Error(`${path} is not encrypted`);
+    }
+    const rewritten = await db.changeEncryption(target);
+    const done = command === 'encrypt' ? 'Encrypted' : command === 'decrypt' ? 'Decrypted' : 'Re-encrypted';
+    console.error(`${done} ${rewritten} memories and revisions in ${path}`);
+    if (command === 'encrypt') {
+      console.error('Backups made before schema upgrades (*.bak next to the store) still hold plain text; delete them once you no longer need them.');
+    }
+  } finally {
+    await db.close();
+    await release();
+  }
+}
+
+// Runs a one-shot subcommand against the memory store and returns the exit code
+export async function runCli(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+
+  if (command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const parsed = parseArgs(rest, BOOLEAN_FLAGS);
+  let stores: StoreRegistry | undefined;
+
+  try {
+    const config = loadConfig(parsed.options);
+    switch (command) {
+      case 'keygen':
+        await keygenCommand(parsed);
+        return 0;
+      case 'encrypt':
+      case 'rotate-key':
+      case 'decrypt':
+        await encryptionCommand(command, config, parsed);
+        return 0;
+    }
+
+    stores = new StoreRegistry(config, { readOnly: READ_COMMANDS.has(command) });
+    const store = await stores.get();
+    const json = parsed.options.get('json') === 'true';
+
+    // Changes are attributed to the CLI in the audit log
+    await runAs({ client_name: 'inked-cli', tool: command, arguments: rest }, async () => {
+      switch (command) {
+        case 'list':
+          await listCommand(store, parsed, json);
+          break;
+        case 'search':
+          await searchCommand(store, parsed, json);
+          break;
+        case 'add':
+          await addCommand(store, parsed, json);
+          break;
+        case 'rm':
+          await rmCommand(store, parsed, json);
+          break;
+        case 'edit':
+          await editCommand(store, parsed, json);
+          break;
+        case 'stats':
+          await statsCommand(store, json);
+          break;
+        case 'export':
+          await exportCommand(store, parsed);
+          break;
+        case 'import':
+          await importCommand(store, parsed);
+          break;
+      }
+    });
+    return 0;
+  } catch (error) {
+    console.error(`inked ${command}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return 1;
+  } finally {
+    await stores?.closeAll();
+  }
+}
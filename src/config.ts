@@ -0,0 +1,272 @@
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+import type { EmbedderKind } from './embeddings.js';
+import type { FusionMethod } from './hybrid.js';
+import { ScoringWeights, DEFAULT_SCORING_WEIGHTS } from './search.js';
+import { Language, LANGUAGES, DEFAULT_LANGUAGE } from './stemmers.js';
+import type { KeySource } from './encryption.js';
+import { IN_MEMORY_DB } from './database.js';
+import {
+  DuplicatePolicy,
+  DUPLICATE_POLICIES,
+  DEFAULT_DUPLICATE_POLICY,
+  DEFAULT_DUPLICATE_THRESHOLD,
+} from './duplicates.js';
+
+export interface InkedConfig {
+  // Directory holding the default store and the stores/ subdirectory
+  dataDir: string;
+  // Explicit database file for the default store, overriding dataDir;
+  // ":memory:" keeps it in memory until the server stops
+  dbPath?: string;
+  // Store used when a tool call does not name one
+  defaultStore: string;
+  // Days a deleted memory stays in the trash before it is purged for good
+  purgeAfterDays: number;
+  // Embedding backend for semantic search; unset keeps text search only
+  embeddings?: EmbedderKind;
+  // Local model directory for the 'local' embedder
+  embeddingModel?: string;
+  // How text and vector rankings are combined when embeddings are on
+  fusion: FusionMethod;
+  // Weight per matcher ('lexical', 'vector'); 0 disables a matcher
+  fusionWeights: Record<FusionMatcher, number>;
+  // What NEW does with a near-duplicate of an existing memory
+  duplicatePolicy: DuplicatePolicy;
+  // 0-1 similarity at which two memories count as duplicates
+  duplicateThreshold: number;
+  // Recency and usage signals in text relevance scoring
+  scoring: ScoringWeights;
+  // Stop words and stemmer for memories written without a language
+  language: Language;
+  // Key for encrypted stores; unset keeps stores in plain text
+  encryption?: KeySource;
+  // stdio serves the one client that spawned the process; http serves any
+  // number of local clients at once
+  transport: Transport;
+  // Localhost port for the http transport
+  port: number;
+  // Bearer token http clients must send; generated at startup when unset
+  httpToken?: string;
+}
+
+export type FusionMatcher = 'lexical' | 'vector';
+
+export type Transport = 'stdio' | 'http';
+
+export const DEFAULT_HTTP_PORT = 7583;
+
+export interface ParsedArgs {
+  positional: string[];
+  options: Map<string, string>;
+}
+
+export const DEFAULT_STORE = 'default';
+
+export const DEFAULT_PURGE_AFTER_DAYS = 30;
+
+const STORE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Splits argv into positionals and --name value / --name=value / --flag options.
+// Boolean flags never take the next argument as their value.
+export function parseArgs(args: string[], booleanFlags: ReadonlySet<string> = new Set()): ParsedArgs {
+  const positional: string[] = [];
+  const options = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inlineValue !== undefined) {
+      options.set(name, inlineValue);
+    } else if (!booleanFlags.has(name) && i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      options.set(name, args[++i]);
+    } else {
+      options.set(name, 'true');
+    }
+  }
+
+  return { positional, options };
+}
+
+export function validateStoreName(name: string): string {
+  if (!STORE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid store name "${name}". Use letters, digits, "-" or "_" (max 64 characters).`);
+  }
+  return name;
+}
+
+function parseNumber(name: string, value: string | undefined, fallback: number, min: number = 0): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min) {
+    throw new Error(`Invalid value "${value}" for ${name}: expected a number >= ${min}`);
+  }
+  return parsed;
+}
+
+function parseEmbeddings(value: string | undefined): EmbedderKind | undefined {
+  if (value === undefined || value === 'false') {
+    return undefined;
+  }
+  // A bare --use-embeddings means the local model
+  if (value === 'true' || value === 'local') {
+    return 'local';
+  }
+  if (value === 'hash') {
+    return 'hash';
+  }
+  throw new Error(`Invalid value "${value}" for --use-embeddings: expected "local" or "hash"`);
+}
+
+function parseFusion(value: string | undefined): FusionMethod {
+  if (value === undefined) {
+    return 'rrf';
+  }
+  if (value !== 'rrf' && value !== 'weighted') {
+    throw new Error(`Invalid value "${value}" for --fusion: expected "rrf" or "weighted"`);
+  }
+  return value;
+}
+
+function parseDuplicatePolicy(value: string | undefined): DuplicatePolicy {
+  if (value === undefined) {
+    return DEFAULT_DUPLICATE_POLICY;
+  }
+  if (!DUPLICATE_POLICIES.includes(value as DuplicatePolicy)) {
+    throw new Error(`Invalid value "${value}" for --on-duplicate: expected one of ${DUPLICATE_POLICIES.join(', ')}`);
+  }
+  return value as DuplicatePolicy;
+}
+
+function parseTransport(value: string | undefined): Transport {
+  if (value === undefined) {
+    return 'stdio';
+  }
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Invalid value "${value}" for --transport: expected "stdio" or "http"`);
+  }
+  return value;
+}
+
+function parsePort(value: string | undefined): number {
+  const port = parseNumber('--port', value, DEFAULT_HTTP_PORT, 1);
+  if (!Number.isInteger(port) || port > 65535) {
+    throw new Error(`Invalid value "${value}" for --port: expected a port number between 1 and 65535`);
+  }
+  return port;
+}
+
+function parseLanguage(value: string | undefined): Language {
+  if (value === undefined) {
+    return DEFAULT_LANGUAGE;
+  }
+  if (!LANGUAGES.includes(value as Language)) {
+    throw new Error(`Invalid value "${value}" for --language: expected one of ${LANGUAGES.join(', ')}`);
+  }
+  return value as Language;
+}
+
+// A key file or passphrase, never both. Passphrases only come from the
+// environment so they stay out of shell history and process listings.
+export function parseKeySource(
+  keyFile: string | undefined,
+  passphrase: string | undefined,
+  names: { keyFile: string; passphrase: string }
+): KeySource | undefined {
+  if (keyFile !== undefined && passphrase !== undefined) {
+    throw new Error(`Use either ${names.keyFile} or ${names.passphrase}, not both`);
+  }
+  if (keyFile !== undefined) {
+    return { kind: 'key-file', path: resolve(keyFile) };
+  }
+  if (passphrase !== undefined) {
+    return { kind: 'passphrase', passphrase };
+  }
+  return undefined;
+}
+
+function parseThreshold(name: string, value: string | undefined, fallback: number): number {
+  const threshold = parseNumber(name, value, fallback);
+  if (threshold > 1) {
+    throw new Error(`Invalid value "${value}" for ${name}: expected a number between 0 and 1`);
+  }
+  return threshold;
+}
+
+// Parses "lexical=1,vector=0.5"; matchers not listed keep weight 1
+function parseFusionWeights(value: string | undefined): Record<FusionMatcher, number> {
+  const weights: Record<FusionMatcher, number> = { lexical: 1, vector: 1 };
+  if (value === undefined) {
+    return weights;
+  }
+
+  for (const pair of value.split(',')) {
+    const [name, weight] = pair.split('=').map(part => part.trim());
+    if (name !== 'lexical' && name !== 'vector') {
+      throw new Error(`Unknown matcher "${name}" in --fusion-weights: expected "lexical" or "vector"`);
+    }
+    weights[name] = parseNumber(`--fusion-weights ${name}`, weight, 1);
+  }
+  return weights;
+}
+
+// CLI flags win over environment variables, which win over defaults
+export function loadConfig(options: Map<string, string>, env: NodeJS.ProcessEnv = process.env): InkedConfig {
+  const dataDir = options.get('data-dir') ?? env.INKED_DIR;
+  const dbPath = options.get('db-path') ?? env.INKED_DB_PATH;
+
+  return {
+    dataDir: dataDir ? resolve(dataDir) : join(homedir(), '.inked'),
+    dbPath: dbPath && dbPath !== IN_MEMORY_DB ? resolve(dbPath) : dbPath || undefined,
+    defaultStore: validateStoreName(options.get('store') ?? env.INKED_STORE ?? DEFAULT_STORE),
+    purgeAfterDays: parseNumber(
+      '--purge-after-days',
+      options.get('purge-after-days') ?? env.INKED_PURGE_AFTER_DAYS,
+      DEFAULT_PURGE_AFTER_DAYS
+    ),
+    embeddings: parseEmbeddings(options.get('use-embeddings') ?? env.INKED_EMBEDDINGS),
+    embeddingModel: options.get('embedding-model') ?? env.INKED_EMBEDDING_MODEL,
+    fusion: parseFusion(options.get('fusion') ?? env.INKED_FUSION),
+    fusionWeights: parseFusionWeights(options.get('fusion-weights') ?? env.INKED_FUSION_WEIGHTS),
+    duplicatePolicy: parseDuplicatePolicy(options.get('on-duplicate') ?? env.INKED_ON_DUPLICATE),
+    duplicateThreshold: parseThreshold(
+      '--duplicate-threshold',
+      options.get('duplicate-threshold') ?? env.INKED_DUPLICATE_THRESHOLD,
+      DEFAULT_DUPLICATE_THRESHOLD
+    ),
+    scoring: {
+      recency: parseNumber(
+        '--recency-weight',
+        options.get('recency-weight') ?? env.INKED_RECENCY_WEIGHT,
+        DEFAULT_SCORING_WEIGHTS.recency
+      ),
+      usage: parseNumber(
+        '--usage-weight',
+        options.get('usage-weight') ?? env.INKED_USAGE_WEIGHT,
+        DEFAULT_SCORING_WEIGHTS.usage
+      ),
+      halfLifeDays: parseNumber(
+        '--half-life-days',
+        options.get('half-life-days') ?? env.INKED_HALF_LIFE_DAYS,
+        DEFAULT_SCORING_WEIGHTS.halfLifeDays,
+        1
+      )
+    },
+    language: parseLanguage(options.get('language') ?? env.INKED_LANGUAGE),
+    encryption: parseKeySource(
+      options.get('key-file') ?? env.INKED_KEY_FILE,
+      env.INKED_PASSPHRASE,
+      { keyFile: '--key-file', passphrase: 'INKED_PASSPHRASE' }
+    ),
+    transport: parseTransport(options.get('transport') ?? env.INKED_TRANSPORT),
+    port: parsePort(options.get('port') ?? env.INKED_PORT),
+    httpToken: env.INKED_HTTP_TOKEN || undefined
+  };
+}
@@ -1,24 +1,211 @@
 import sqlite3 from 'sqlite3';
-import { join } from 'path';
-import { homedir } from 'os';
+import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { dirname } from 'path';
 import { mkdir, access, constants, chmod } from 'fs/promises';
+import { migrations, LATEST_SCHEMA_VERSION } from './migrations.js';
+import type { Language } from './stemmers.js';
+import { ContentCipher, createEncryption, openEncryption } from './encryption.js';
+import type { EncryptionSettings, KeySource } from './encryption.js';
+import { currentActor } from './audit.js';
+import type { AuditEntry, AuditQuery, AuditRecord } from './audit.js';
 
 export interface Memory {
   id: number;
   content: string;
   created_at: string;
+  updated_at: string | null;
+  namespace: string | null;
+  tags: string[];
+  // 1 (trivia) to 5 (critical); scales search relevance
+  importance: number;
+  // Pinned memories come first when listing
+  pinned: boolean;
+  // Expired memories drop out of every read and are swept later
+  expires_at: string | null;
+  // How many times, and when last, a read returned this memory
+  access_count: number;
+  last_accessed_at: string | null;
+  // Analysis language; null means the store's default
+  language: Language | null;
 }
 
-class DatabaseManager {
+export const DEFAULT_IMPORTANCE = 3;
+
+// Earlier text of a memory, captured each time it is edited in place
+export interface MemoryRevision {
+  id: number;
+  memory_id: number;
+  content: string;
+  revised_at: string;
+}
+
+export interface MemoryFilters {
+  namespace?: string;
+  // Superseded memories are hidden unless this is set
+  include_superseded?: boolean;
+  // A memory must carry every listed tag to match
+  tags?: string[];
+  // ISO 8601 bounds on created_at: after is inclusive, before exclusive
+  created_after?: string;
+  created_before?: string;
+}
+
+// newest and oldest list pinned memories first; created is strict creation
+// order, oldest first, for scans that must not let pins reorder history
+export type MemoryOrder = 'newest' | 'oldest' | 'created';
+
+export interface MemoryMetadata {
+  namespace?: string;
+  tags?: string[];
+  importance?: number;
+  pinned?: boolean;
+  // ISO 8601 expiry; null clears it
+  expires_at?: string | null;
+  // null goes back to the store's default language
+  language?: Language | null;
+}
+
+// A memory arriving from outside (e.g. an import file); unset fields get defaults
+export interface ImportedMemory extends MemoryMetadata {
+  id?: number;
+  content: string;
+  created_at?: string;
+  updated_at?: string | null;
+  // Outgoing links by the ids used in the same import
+  links?: LinkTarget[];
+}
+
+// source relates_to / supersedes / contradicts / is part_of target
+export type LinkRelation = 'relates_to' | 'supersedes' | 'contradicts' | 'part_of';
+
+export const LINK_RELATIONS: readonly LinkRelation[] = ['relates_to', 'supersedes', 'contradicts', 'part_of'];
+
+export interface LinkTarget {
+  id: number;
+  relation: LinkRelation;
+}
+
+export interface SynonymGroup {
+  id: number;
+  terms: string[];
+}
+
+// The editable word lists behind text search
+export interface Vocabulary {
+  synonymGroups: SynonymGroup[];
+  stopWords: Partial<Record<Language, string[]>>;
+}
+
+export interface MemoryLink {
+  source_id: number;
+  target_id: number;
+  relation: LinkRelation;
+  created_at: string;
+}
+
+export interface TrashedMemory extends Memory {
+  deleted_at: string;
+}
+
+export interface EmbeddedMemory extends Memory {
+  vector: Float32Array;
+}
+
+export interface FullTextMatch extends Memory {
+  rank: number;
+}
+
+export type MemoryChangeType =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'restored'
+  | 'imported'
+  | 'purged'
+  | 'expired'
+  | 'linked';
+
+// Emitted as 'change' after a write commits. ids is empty when the affected
+// rows are not tracked individually (replace-imports, purges).
+export interface MemoryChange {
+  type: MemoryChangeType;
+  ids: number[];
+}
+
+// Counts and sizes describing a whole store
+export interface StoreStats {
+  memories: number;
+  pinned: number;
+  expiring: number;
+  trashed: number;
+  revisions: number;
+  links: number;
+  embeddings: number;
+  oldest: string | null;
+  newest: string | null;
+  namespaces: { namespace: string; count: number }[];
+  // Most used first
+  tags: { tag: string; count: number }[];
+  schema_version: number;
+  encrypted: boolean;
+  size_bytes: number;
+}
+
+const BUSY_TIMEOUT_MS = 5000;
+
+// SQLite's name for a private database that lives only as long as its
+// connection, e.g. for tests
+export const IN_MEMORY_DB = ':memory:';
+
+// Tags listed in stats
+const STATS_TAG_LIMIT = 10;
+
+// Longest tool arguments kept with an audit log entry
+const MAX_AUDIT_ARGUMENT_CHARS = 4000;
+
+export class DatabaseManager extends EventEmitter {
   public db: sqlite3.Database | null = null;
-  private readonly dbPath: string;
 
-  constructor() {
-    this.dbPath = join(homedir(), '.inked', 'memories.db');
+  // Set while the store is encrypted; content is sealed on write and opened on read
+  private cipher?: ContentCipher;
+
+  // data_version the in-memory index was last built at
+  private indexedVersion?: number;
+
+  // Every session shares one connection, so writes take turns: a write
+  // waits for the open transaction (or statement) to finish
+  private writeLock: Promise<void> = Promise.resolve();
+
+  // Set while the current async call chain is inside transaction(); holds
+  // the change events to emit once it commits
+  private readonly transactionScope = new AsyncLocalStorage<MemoryChange[]>();
+
+  // Without a key source, opening an encrypted store fails. dbPath may be
+  // IN_MEMORY_DB for a throwaway store.
+  constructor(readonly dbPath: string, private readonly keySource?: KeySource) {
+    super();
+  }
+
+  get inMemory(): boolean {
+    return this.dbPath === IN_MEMORY_DB;
+  }
+
+  get encrypted(): boolean {
+    return !!this.cipher;
+  }
+
+  private notifyChange(type: MemoryChangeType, ids: number[]): void {
+    const pending = this.transactionScope.getStore();
+    if (pending) {
+      pending.push({ type, ids });
+      return;
+    }
+    this.emit('change', { type, ids } satisfies MemoryChange);
   }
 
   private async ensureInkedDir(): Promise<void> {
-    const inkedDir = join(homedir(), '.inked');
+    const inkedDir = dirname(this.dbPath);
     try {
       await mkdir(inkedDir, { recursive: true, mode: 0o755 });
     } catch (error: any) {
@@ -29,79 +216,1028 @@ class DatabaseManager {
   }
 
   async initialize(): Promise<void> {
-    await this.ensureInkedDir();
-    
-    // Check if we can write to the directory
-    try {
-      await access(join(homedir(), '.inked'), constants.W_OK);
-    } catch (error) {
-      throw new Error(`Cannot write to ~/.inked directory. Please check permissions.`);
+    if (!this.inMemory) {
+      await this.ensureInkedDir();
+
+      // Check if we can write to the directory
+      try {
+        await access(dirname(this.dbPath), constants.W_OK);
+      } catch (error) {
+        throw new Error(`Cannot write to ${dirname(this.dbPath)} directory. Please check permissions.`);
+      }
     }
-    
-    return new Promise((resolve, reject) => {
-      this.db = new sqlite3.Database(this.dbPath, sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE, async (err) => {
+
+    await new Promise<void>((resolve, reject) => {
+      this.db = new sqlite3.Database(this.dbPath, sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE, (err) => {
         if (err) {
           reject(new Error(`Failed to open database: ${err.message}`));
           return;
         }
+        resolve();
+      });
+    });
 
-        // Ensure database file has correct permissions
-        try {
-          await chmod(this.dbPath, 0o644);
-        } catch (chmodErr) {
-          console.warn('Could not set database file permissions:', chmodErr);
-        }
+    // Memories are private: owner read/write only
+    if (!this.inMemory) {
+      try {
+        await chmod(this.dbPath, 0o600);
+      } catch (chmodErr) {
+        console.warn('Could not set database file permissions:', chmodErr);
+      }
+    }
 
-        // Create simple memories table
-        this.db!.run(`
-          CREATE TABLE IF NOT EXISTS memories (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            content TEXT NOT NULL,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-          )
-        `, (err) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          
-          // Test that we can write to the database
-          this.db!.run('PRAGMA journal_mode=WAL', (pragmaErr) => {
-            if (pragmaErr) {
-              reject(new Error(`Database is read-only: ${pragmaErr.message}`));
-            } else {
-              resolve();
-            }
-          });
-        });
-      });
+    await this.run('PRAGMA foreign_keys = ON');
+    // The server and CLI commands may have the store open at the same time;
+    // wait for the other side's write to finish instead of failing
+    await this.run(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    await this.migrate();
+
+    // Test that we can write to the database
+    try {
+      await this.run('PRAGMA journal_mode=WAL');
+    } catch (pragmaErr: any) {
+      throw new Error(`Database is read-only: ${pragmaErr.message}`);
+    }
+
+    await this.unlock();
+  }
+
+  // Checks the key against an encrypted store, or turns encryption on for a
+  // new store opened with a key
+  private async unlock(): Promise<void> {
+    const settings = await this.get<EncryptionSettings>('SELECT key_source, salt, check_value FROM encryption');
+
+    if (settings) {
+      if (!this.keySource) {
+        throw new Error('This store is encrypted. Set INKED_PASSPHRASE or pass --key-file to open it.');
+      }
+      this.cipher = await openEncryption(this.keySource, settings);
+    } else if (this.keySource) {
+      if (await this.get('SELECT 1 FROM memories LIMIT 1')) {
+        throw new Error('This store holds unencrypted memories. Run "inked encrypt" to encrypt them before opening it with a key.');
+      }
+      const { cipher, settings } = await createEncryption(this.keySource);
+      await this.saveEncryptionSettings(settings);
+      this.cipher = cipher;
+    }
+
+    if (this.cipher) {
+      await this.buildPlaintextIndex();
+    }
+  }
+
+  private async saveEncryptionSettings(settings: EncryptionSettings): Promise<void> {
+    await this.run(
+      'INSERT INTO encryption (id, key_source, salt, check_value) VALUES (1, ?, ?, ?)',
+      [settings.key_source, settings.salt, settings.check_value]
+    );
+  }
+
+  // Encrypted content is useless to the on-disk FTS index, so encrypted
+  // stores search a decrypted copy that only ever lives in memory
+  private async buildPlaintextIndex(): Promise<void> {
+    await this.run('PRAGMA temp_store = MEMORY');
+    await this.run(
+      "CREATE VIRTUAL TABLE IF NOT EXISTS temp.memories_plain USING fts5(content, tokenize='unicode61 remove_diacritics 2')"
+    );
+
+    const rows = await this.all<{ id: number; content: string }>('SELECT id, content FROM memories');
+    await this.transaction(async () => {
+      await this.run('DELETE FROM temp.memories_plain');
+      for (const row of rows) {
+        await this.run('INSERT INTO temp.memories_plain (rowid, content) VALUES (?, ?)', [row.id, this.unseal(row.content)]);
+      }
+    });
+    this.indexedVersion = await this.dataVersion();
+  }
+
+  // Another connection (e.g. the CLI) committed since the index was built
+  private async refreshPlaintextIndex(): Promise<void> {
+    if (await this.dataVersion() !== this.indexedVersion) {
+      await this.buildPlaintextIndex();
+    }
+  }
+
+  private async dataVersion(): Promise<number> {
+    const row = await this.get<{ data_version: number }>('PRAGMA data_version');
+    return row!.data_version;
+  }
+
+  // Must run inside the transaction that writes the memory
+  private async indexPlaintext(id: number, content: string): Promise<void> {
+    if (!this.cipher) {
+      return;
+    }
+    await this.run('DELETE FROM temp.memories_plain WHERE rowid = ?', [id]);
+    await this.run('INSERT INTO temp.memories_plain (rowid, content) VALUES (?, ?)', [id, content]);
+  }
+
+  // Drops index entries of memories that were deleted for good
+  private async pruneIndex(): Promise<void> {
+    if (this.cipher) {
+      await this.run('DELETE FROM temp.memories_plain WHERE rowid NOT IN (SELECT id FROM memories)');
+    }
+  }
+
+  private seal(content: string): string {
+    return this.cipher ? this.cipher.seal(content) : content;
+  }
+
+  private unseal(content: string): string {
+    return this.cipher && ContentCipher.isSealed(content) ? this.cipher.open(content) : content;
+  }
+
+  // Encrypts the store with a new key, re-encrypts it with a different key,
+  // or (without a key source) decrypts it, in one transaction. Afterwards the
+  // old text is scrubbed from free pages, the FTS index and the WAL.
+  // Resolves to the number of memories and revisions rewritten (audit log
+  // entries are rewritten too, but not counted).
+  async changeEncryption(target?: KeySource): Promise<number> {
+    const next = target ? await createEncryption(target) : undefined;
+    const rewrite = (content: string) => next ? next.cipher.seal(this.unseal(content)) : this.unseal(content);
+
+    const rewritten = await this.transaction(async () => {
+      // Rewriting content would otherwise drop every embedding as stale
+      await this.run('CREATE TEMP TABLE kept_embeddings AS SELECT * FROM memory_embeddings');
+
+      const memories = await this.all<{ id: number; content: string }>('SELECT id, content FROM memories');
+      for (const row of memories) {
+        await this.run('UPDATE memories SET content = ? WHERE id = ?', [rewrite(row.content), row.id]);
+      }
+      const revisions = await this.all<{ id: number; content: string }>('SELECT id, content FROM memory_revisions');
+      for (const row of revisions) {
+        await this.run('UPDATE memory_revisions SET content = ? WHERE id = ?', [rewrite(row.content), row.id]);
+      }
+      const entries = await this.all<{ id: number; arguments: string | null; before_content: string | null; after_content: string | null }>(
+        'SELECT id, arguments, before_content, after_content FROM audit_log'
+      );
+      const rewriteNullable = (value: string | null) => value === null ? null : rewrite(value);
+      for (const row of entries) {
+        await this.run(
+          'UPDATE audit_log SET arguments = ?, before_content = ?, after_content = ? WHERE id = ?',
+          [rewriteNullable(row.arguments), rewriteNullable(row.before_content), rewriteNullable(row.after_content), row.id]
+        );
+      }
+
+      await this.run('INSERT OR REPLACE INTO memory_embeddings SELECT * FROM temp.kept_embeddings');
+      await this.run('DROP TABLE temp.kept_embeddings');
+
+      await this.run('DELETE FROM encryption');
+      if (next) {
+        await this.saveEncryptionSettings(next.settings);
+      }
+      return memories.length + revisions.length;
     });
+
+    this.cipher = next?.cipher;
+    if (this.cipher) {
+      await this.buildPlaintextIndex();
+    } else {
+      await this.run('DROP TABLE IF EXISTS temp.memories_plain');
+    }
+
+    await this.run("INSERT INTO memories_fts(memories_fts) VALUES ('optimize')");
+    await this.run('VACUUM');
+    await this.run('PRAGMA wal_checkpoint(TRUNCATE)');
+    return rewritten;
+  }
+
+  private async migrate(): Promise<void> {
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const row = await this.get<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_version');
+    const currentVersion = row?.version ?? 0;
+
+    if (currentVersion > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `Database schema version ${currentVersion} is newer than this version of Inked supports (${LATEST_SCHEMA_VERSION}). Please upgrade Inked.`
+      );
+    }
+
+    const pending = migrations.filter(migration => migration.version > currentVersion);
+    if (pending.length === 0) {
+      return;
+    }
+
+    // Stores created before versioning have a memories table but no version rows
+    const hasData = currentVersion > 0 || !!(await this.get(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'memories'"
+    ));
+    if (hasData) {
+      await this.backup(currentVersion);
+    }
+
+    for (const migration of pending) {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        await this.exec(migration.up);
+        await this.run(
+          'INSERT INTO schema_version (version, description) VALUES (?, ?)',
+          [migration.version, migration.description]
+        );
+        await this.run('COMMIT');
+      } catch (error: any) {
+        await this.run('ROLLBACK').catch(() => {});
+        throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${error.message}`);
+      }
+    }
+  }
+
+  // Snapshot the store before upgrading; VACUUM INTO includes pending WAL pages
+  private async backup(fromVersion: number): Promise<void> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${this.dbPath}.v${fromVersion}-${timestamp}.bak`;
+    try {
+      await this.run('VACUUM INTO ?', [backupPath]);
+    } catch (error: any) {
+      throw new Error(`Failed to back up database before migration: ${error.message}`);
+    }
+    console.error(`Backed up database to ${backupPath} before upgrading schema`);
+  }
+
+  // Runs fn inside BEGIN IMMEDIATE/COMMIT, rolling back if it throws. Nested
+  // calls join the outer transaction. Changes made inside are announced only
+  // after the commit, and not at all after a rollback.
+  private async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return fn();
+    }
+
+    const pending: MemoryChange[] = [];
+    const result = await this.withWriteLock(() => this.transactionScope.run(pending, async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const result = await fn();
+        await this.run('COMMIT');
+        return result;
+      } catch (error) {
+        await this.run('ROLLBACK').catch(() => {});
+        throw error;
+      }
+    }));
+    for (const change of pending) {
+      this.emit('change', change);
+    }
+    return result;
+  }
+
+  // True inside transaction() or batch(); waiting there on anything that
+  // writes outside the transaction would deadlock on the write lock
+  get inTransaction(): boolean {
+    return !!this.transactionScope.getStore();
+  }
+
+  // Runs several store calls as one transaction: either all of them are
+  // saved or, if fn throws, none are
+  async batch<T>(fn: () => Promise<T>): Promise<T> {
+    return this.transaction(fn);
+  }
+
+  private withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.writeLock.then(fn);
+    this.writeLock = result.then(() => {}, () => {});
+    return result;
+  }
+
+  // Statements outside a transaction queue behind it rather than landing in
+  // it; reads too, since on the shared connection they would see its
+  // uncommitted rows
+  private queued<T>(statement: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return statement();
+    }
+    return this.withWriteLock(statement);
+  }
+
+  private run(sql: string, params: unknown[] = []): Promise<{ lastID: number; changes: number }> {
+    return this.queued(() => this.runStatement(sql, params));
   }
 
-  async addMemory(content: string): Promise<number> {
+  private runStatement(sql: string, params: unknown[]): Promise<{ lastID: number; changes: number }> {
     return new Promise((resolve, reject) => {
-      const stmt = this.db!.prepare('INSERT INTO memories (content) VALUES (?)');
-      stmt.run([content], function(err) {
+      this.db!.run(sql, params, function(err) {
         if (err) {
           reject(err);
           return;
         }
-        
-        resolve(this.lastID);
+        resolve({ lastID: this.lastID, changes: this.changes });
       });
     });
   }
 
-  async deleteMemory(id: number): Promise<boolean> {
+  private all<T = any>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.queued(() => new Promise((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows: T[]) => err ? reject(err) : resolve(rows));
+    }));
+  }
+
+  private get<T = any>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return this.queued(() => new Promise((resolve, reject) => {
+      this.db!.get(sql, params, (err, row: T) => err ? reject(err) : resolve(row));
+    }));
+  }
+
+  private exec(sql: string): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.db!.run('DELETE FROM memories WHERE id = ?', [id], function(err) {
-        if (err) {
-          reject(err);
-          return;
+      this.db!.exec(sql, (err) => err ? reject(err) : resolve());
+    });
+  }
+
+  // Columns selected for every Memory read; tags come back as a JSON array
+  private readonly memoryColumns = `
+    m.id, m.content, m.created_at, m.updated_at, m.namespace, m.importance, m.pinned, m.expires_at,
+    m.access_count, m.last_accessed_at, m.language,
+    (SELECT json_group_array(t.tag) FROM memory_tags t WHERE t.memory_id = m.id) AS tags
+  `;
+
+  private toMemory(row: any): Memory {
+    return {
+      id: row.id,
+      content: this.unseal(row.content),
+      created_at: row.created_at,
+      updated_at: row.updated_at ?? null,
+      namespace: row.namespace ?? null,
+      tags: row.tags ? JSON.parse(row.tags) : [],
+      importance: row.importance ?? DEFAULT_IMPORTANCE,
+      pinned: !!row.pinned,
+      expires_at: row.expires_at ?? null,
+      access_count: row.access_count ?? 0,
+      last_accessed_at: row.last_accessed_at ?? null,
+      language: row.language ?? null
+    };
+  }
+
+  // Every read goes through here, so trashed and expired memories never leak into results
+  private filterClause(filters: MemoryFilters = {}): { sql: string; params: unknown[] } {
+    const conditions: string[] = [LIVE_CONDITION];
+    const params: unknown[] = [];
+
+    if (!filters.include_superseded) {
+      conditions.push(`NOT EXISTS (
+        SELECT 1 FROM memory_links l JOIN memories s ON s.id = l.source_id
+        WHERE l.target_id = m.id AND l.relation = 'supersedes' AND ${liveCondition('s')}
+      )`);
+    }
+
+    if (filters.namespace) {
+      conditions.push('m.namespace = ?');
+      params.push(filters.namespace);
+    }
+
+    const tags = normalizeTags(filters.tags);
+    if (tags.length > 0) {
+      conditions.push(`m.id IN (
+        SELECT memory_id FROM memory_tags
+        WHERE tag IN (${tags.map(() => '?').join(', ')})
+        GROUP BY memory_id
+        HAVING COUNT(DISTINCT tag) = ?
+      )`);
+      params.push(...tags, tags.length);
+    }
+
+    // datetime() on both sides so imported ISO timestamps compare correctly
+    if (filters.created_after) {
+      conditions.push('datetime(m.created_at) >= datetime(?)');
+      params.push(toSqlTimestamp(filters.created_after));
+    }
+    if (filters.created_before) {
+      conditions.push('datetime(m.created_at) < datetime(?)');
+      params.push(toSqlTimestamp(filters.created_before));
+    }
+
+    return { sql: conditions.join(' AND '), params };
+  }
+
+  async listMemories(
+    limit: number,
+    filters: MemoryFilters = {},
+    offset: number = 0,
+    order: MemoryOrder = 'newest'
+  ): Promise<Memory[]> {
+    const where = this.filterClause(filters);
+    const direction = order === 'newest' ? 'DESC' : 'ASC';
+    const rows = await this.all(`
+      SELECT ${this.memoryColumns}
+      FROM memories m
+      WHERE ${where.sql}
+      ORDER BY ${order === 'created' ? '' : 'm.pinned DESC, '}m.created_at ${direction}, m.id ${direction}
+      LIMIT ? OFFSET ?
+    `, [...where.params, limit, offset]);
+    return rows.map(row => this.toMemory(row));
+  }
+
+  async searchFullText(matchQuery: string, limit: number, filters: MemoryFilters = {}): Promise<FullTextMatch[]> {
+    if (this.cipher) {
+      await this.refreshPlaintextIndex();
+    }
+    const index = this.cipher ? 'memories_plain' : 'memories_fts';
+    const where = this.filterClause(filters);
+    const rows = await this.all(`
+      SELECT ${this.memoryColumns}, bm25(${index}) AS rank
+      FROM ${index}
+      JOIN memories m ON m.id = ${index}.rowid
+      WHERE ${index} MATCH ? AND ${where.sql}
+      ORDER BY rank
+      LIMIT ?
+    `, [matchQuery, ...where.params, limit]);
+    return rows.map(row => ({ ...this.toMemory(row), rank: row.rank }));
+  }
+
+  // Live memories that have a vector for the given model
+  async getEmbeddedMemories(model: string, filters: MemoryFilters = {}): Promise<EmbeddedMemory[]> {
+    const where = this.filterClause(filters);
+    const rows = await this.all(`
+      SELECT ${this.memoryColumns}, e.vector
+      FROM memory_embeddings e
+      JOIN memories m ON m.id = e.memory_id
+      WHERE e.model = ? AND ${where.sql}
+    `, [model, ...where.params]);
+    return rows.map(row => ({ ...this.toMemory(row), vector: bufferToVector(row.vector) }));
+  }
+
+  // Live memories still missing a vector for the given model (new, edited or
+  // written before embeddings were enabled)
+  async getUnembeddedMemories(model: string, limit: number): Promise<Pick<Memory, 'id' | 'content'>[]> {
+    const rows = await this.all<Pick<Memory, 'id' | 'content'>>(`
+      SELECT m.id, m.content
+      FROM memories m
+      WHERE ${LIVE_CONDITION}
+        AND NOT EXISTS (SELECT 1 FROM memory_embeddings e WHERE e.memory_id = m.id AND e.model = ?)
+      ORDER BY m.id
+      LIMIT ?
+    `, [model, limit]);
+    return rows.map(row => ({ ...row, content: this.unseal(row.content) }));
+  }
+
+  async saveEmbedding(memoryId: number, model: string, vector: Float32Array): Promise<void> {
+    await this.run(
+      `INSERT OR REPLACE INTO memory_embeddings (memory_id, model, dimensions, vector)
+       SELECT id, ?, ?, ? FROM memories WHERE id = ?`,
+      [model, vector.length, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), memoryId]
+    );
+  }
+
+  // Appends to the audit log on behalf of the current actor. Must run inside
+  // the transaction that makes the change, so the two commit together.
+  private async audit(record: AuditRecord): Promise<void> {
+    const actor = currentActor();
+    let args = actor.arguments === null || actor.arguments === undefined ? null : JSON.stringify(actor.arguments);
+    if (args !== null && args.length > MAX_AUDIT_ARGUMENT_CHARS) {
+      args = `${args.slice(0, MAX_AUDIT_ARGUMENT_CHARS)}... (truncated)`;
+    }
+    const sealNullable = (value: string | null | undefined) => value === null || value === undefined ? null : this.seal(value);
+
+    await this.run(
+      `INSERT INTO audit_log (memory_id, related_id, operation, detail, client_name, client_version, tool, arguments, before_content, after_content)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.memory_id,
+        record.related_id ?? null,
+        record.operation,
+        record.detail ?? null,
+        actor.client_name,
+        actor.client_version,
+        actor.tool,
+        sealNullable(args),
+        sealNullable(record.before),
+        sealNullable(record.after)
+      ]
+    );
+  }
+
+  // Newest first
+  async getAuditLog(query: AuditQuery): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.memory_id !== undefined) {
+      conditions.push('(memory_id = ? OR related_id = ?)');
+      params.push(query.memory_id, query.memory_id);
+    }
+    if (query.operation) {
+      conditions.push('operation = ?');
+      params.push(query.operation);
+    }
+    if (query.since) {
+      conditions.push('datetime(occurred_at) >= datetime(?)');
+      params.push(toSqlTimestamp(query.since));
+    }
+    if (query.until) {
+      conditions.push('datetime(occurred_at) < datetime(?)');
+      params.push(toSqlTimestamp(query.until));
+    }
+
+    const rows = await this.all(`
+      SELECT id, occurred_at, memory_id, related_id, operation, detail, client_name, client_version, tool,
+        arguments, before_content, after_content
+      FROM audit_log
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY id DESC
+      LIMIT ?
+    `, [...params, query.limit]);
+
+    return rows.map(row => {
+      const args = row.arguments === null ? null : this.unseal(row.arguments);
+      let parsed: unknown = args;
+      try {
+        parsed = args === null ? null : JSON.parse(args);
+      } catch {
+        // Truncated arguments are kept as text
+      }
+      return {
+        ...row,
+        arguments: parsed,
+        before_content: row.before_content === null ? null : this.unseal(row.before_content),
+        after_content: row.after_content === null ? null : this.unseal(row.after_content)
+      };
+    });
+  }
+
+  async addMemory(content: string, metadata: MemoryMetadata = {}): Promise<number> {
+    const id = await this.transaction(async () => {
+      const id = await this.insertMemory({ content, ...metadata });
+      await this.audit({ operation: 'created', memory_id: id, after: content });
+      return id;
+    });
+    this.notifyChange('created', [id]);
+    return id;
+  }
+
+  private async insertMemory(memory: ImportedMemory): Promise<number> {
+    const { lastID } = await this.run(
+      `INSERT INTO memories (id, content, created_at, updated_at, namespace, importance, pinned, expires_at, language)
+       VALUES (?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?, ?, ?, ?, ?)`,
+      [
+        memory.id ?? null,
+        this.seal(memory.content),
+        memory.created_at ?? null,
+        memory.updated_at ?? null,
+        memory.namespace ?? null,
+        memory.importance ?? DEFAULT_IMPORTANCE,
+        memory.pinned ? 1 : 0,
+        memory.expires_at ? toSqlTimestamp(memory.expires_at) : null,
+        memory.language ?? null
+      ]
+    );
+    for (const tag of normalizeTags(memory.tags)) {
+      await this.run('INSERT OR IGNORE INTO memory_tags (memory_id, tag) VALUES (?, ?)', [lastID, tag]);
+    }
+    await this.indexPlaintext(lastID, memory.content);
+    return lastID;
+  }
+
+  // Every live memory, oldest first, for export
+  async getAllMemories(): Promise<Memory[]> {
+    const rows = await this.all(`SELECT ${this.memoryColumns} FROM memories m WHERE ${LIVE_CONDITION} ORDER BY m.id`);
+    return rows.map(row => this.toMemory(row));
+  }
+
+  // Inserts records in one transaction, keeping each record's id when it is
+  // free. With replace, existing memories are removed first. Resolves to the
+  // id each record was stored under.
+  async importMemories(records: ImportedMemory[], replace: boolean): Promise<number[]> {
+    const ids = await this.transaction(async () => {
+      if (replace) {
+        for (const row of await this.all<{ id: number; content: string }>('SELECT id, content FROM memories')) {
+          await this.audit({ operation: 'purged', memory_id: row.id, before: this.unseal(row.content) });
         }
-        resolve(this.changes > 0);
-      });
+        await this.run('DELETE FROM memories');
+        await this.pruneIndex();
+      }
+
+      const ids: number[] = [];
+      const idMap = new Map<number, number>();
+      for (const record of records) {
+        const taken = record.id !== undefined && !!(await this.get('SELECT id FROM memories WHERE id = ?', [record.id]));
+        const id = await this.insertMemory(taken ? { ...record, id: undefined } : record);
+        await this.audit({ operation: 'imported', memory_id: id, after: record.content });
+        ids.push(id);
+        if (record.id !== undefined) {
+          idMap.set(record.id, id);
+        }
+      }
+
+      // Links survive only when both ends are part of the import
+      for (const [index, record] of records.entries()) {
+        for (const link of record.links ?? []) {
+          const targetId = idMap.get(link.id);
+          if (targetId !== undefined && targetId !== ids[index]) {
+            await this.insertLink(ids[index], targetId, link.relation);
+            await this.audit({ operation: 'linked', memory_id: ids[index], related_id: targetId, detail: link.relation });
+          }
+        }
+      }
+      return ids;
+    });
+    this.notifyChange('imported', replace ? [] : ids);
+    return ids;
+  }
+
+  async getMemory(id: number): Promise<Memory | undefined> {
+    const row = await this.get(`SELECT ${this.memoryColumns} FROM memories m WHERE m.id = ? AND ${LIVE_CONDITION}`, [id]);
+    return row ? this.toMemory(row) : undefined;
+  }
+
+  // Replaces a memory's content, keeping its id and created_at and saving the
+  // previous text as a revision. Importance, pinning and expiry change only
+  // when given. Resolves false when the id does not exist.
+  async updateMemory(id: number, content: string, metadata: MemoryMetadata = {}): Promise<boolean> {
+    const updated = await this.transaction(() => this.rewriteMemory(id, content, metadata, 'updated'));
+    if (updated) {
+      this.notifyChange('updated', [id]);
+    }
+    return updated;
+  }
+
+  // Folds a near-duplicate write into an existing memory: the new text
+  // replaces the old one (kept as a revision) unless they are identical, and
+  // the tags are added to the existing ones. Resolves false when the id does
+  // not exist.
+  async mergeMemory(id: number, content: string, metadata: MemoryMetadata = {}): Promise<boolean> {
+    const merged = await this.transaction(async () => {
+      if (!(await this.rewriteMemory(id, content, metadata, 'merged'))) {
+        return false;
+      }
+      for (const tag of normalizeTags(metadata.tags)) {
+        await this.run('INSERT OR IGNORE INTO memory_tags (memory_id, tag) VALUES (?, ?)', [id, tag]);
+      }
+      return true;
     });
+    if (merged) {
+      this.notifyChange('updated', [id]);
+    }
+    return merged;
+  }
+
+  // Shared by update and merge; must run inside a transaction. Unchanged text
+  // is not recorded as a revision.
+  private async rewriteMemory(
+    id: number,
+    content: string,
+    metadata: MemoryMetadata,
+    operation: 'updated' | 'merged'
+  ): Promise<boolean> {
+    const existing = await this.get<{ content: string }>(
+      'SELECT content FROM memories WHERE id = ? AND deleted_at IS NULL',
+      [id]
+    );
+    if (!existing) {
+      return false;
+    }
+
+    const assignments = ['updated_at = CURRENT_TIMESTAMP'];
+    const params: unknown[] = [];
+    if (this.unseal(existing.content) !== content) {
+      // The old text moves to the revision still sealed
+      await this.run('INSERT INTO memory_revisions (memory_id, content) VALUES (?, ?)', [id, existing.content]);
+      await this.indexPlaintext(id, content);
+      assignments.push('content = ?');
+      params.push(this.seal(content));
+    }
+    if (metadata.importance !== undefined) {
+      assignments.push('importance = ?');
+      params.push(metadata.importance);
+    }
+    if (metadata.pinned !== undefined) {
+      assignments.push('pinned = ?');
+      params.push(metadata.pinned ? 1 : 0);
+    }
+    if (metadata.expires_at !== undefined) {
+      assignments.push('expires_at = ?');
+      params.push(metadata.expires_at === null ? null : toSqlTimestamp(metadata.expires_at));
+    }
+    if (metadata.language !== undefined) {
+      assignments.push('language = ?');
+      params.push(metadata.language);
+    }
+
+    await this.run(`UPDATE memories SET ${assignments.join(', ')} WHERE id = ?`, [...params, id]);
+    await this.audit({ operation, memory_id: id, before: this.unseal(existing.content), after: content });
+    return true;
+  }
+
+  // Counts a read hit for each memory. Not a content change, so no event.
+  async recordAccess(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.run(
+      `UPDATE memories SET access_count = access_count + 1, last_accessed_at = CURRENT_TIMESTAMP
+       WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+  }
+
+  // Adds links from one memory to others. Every target must be a live memory.
+  async addLinks(sourceId: number, links: LinkTarget[]): Promise<void> {
+    await this.transaction(async () => {
+      for (const link of links) {
+        if (link.id === sourceId) {
+          throw new Error(`Memory ${sourceId} cannot link to itself`);
+        }
+        const target = await this.get(`SELECT m.id FROM memories m WHERE m.id = ? AND ${LIVE_CONDITION}`, [link.id]);
+        if (!target) {
+          throw new Error(`Cannot link to memory ${link.id}: no such memory`);
+        }
+        await this.insertLink(sourceId, link.id, link.relation);
+        await this.audit({ operation: 'linked', memory_id: sourceId, related_id: link.id, detail: link.relation });
+      }
+    });
+    this.notifyChange('linked', [sourceId, ...links.map(link => link.id)]);
+  }
+
+  private async insertLink(sourceId: number, targetId: number, relation: LinkRelation): Promise<void> {
+    await this.run(
+      'INSERT OR IGNORE INTO memory_links (source_id, target_id, relation) VALUES (?, ?, ?)',
+      [sourceId, targetId, relation]
+    );
+  }
+
+  // Removes links from one memory; without a relation every link to the target goes.
+  // Resolves to the number of links removed.
+  async removeLinks(sourceId: number, links: { id: number; relation?: LinkRelation }[]): Promise<number> {
+    const removed = await this.transaction(async () => {
+      let removed = 0;
+      for (const link of links) {
+        const matches = await this.all<{ relation: LinkRelation }>(
+          'SELECT relation FROM memory_links WHERE source_id = ? AND target_id = ? AND (? IS NULL OR relation = ?)',
+          [sourceId, link.id, link.relation ?? null, link.relation ?? null]
+        );
+        for (const { relation } of matches) {
+          await this.run(
+            'DELETE FROM memory_links WHERE source_id = ? AND target_id = ? AND relation = ?',
+            [sourceId, link.id, relation]
+          );
+          await this.audit({ operation: 'unlinked', memory_id: sourceId, related_id: link.id, detail: relation });
+        }
+        removed += matches.length;
+      }
+      return removed;
+    });
+    if (removed > 0) {
+      this.notifyChange('linked', [sourceId, ...links.map(link => link.id)]);
+    }
+    return removed;
+  }
+
+  // Links touching any of the given memories, in either direction
+  async getLinks(ids: number[]): Promise<MemoryLink[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const placeholders = ids.map(() => '?').join(', ');
+    return this.all<MemoryLink>(`
+      SELECT source_id, target_id, relation, created_at
+      FROM memory_links
+      WHERE source_id IN (${placeholders}) OR target_id IN (${placeholders})
+      ORDER BY created_at, source_id, target_id
+    `, [...ids, ...ids]);
+  }
+
+  // Every link, for export
+  async getAllLinks(): Promise<MemoryLink[]> {
+    return this.all<MemoryLink>('SELECT source_id, target_id, relation, created_at FROM memory_links ORDER BY source_id, target_id');
+  }
+
+  async getVocabulary(): Promise<Vocabulary> {
+    const synonymRows = await this.all<{ group_id: number; term: string }>(
+      'SELECT group_id, term FROM search_synonyms ORDER BY group_id, rowid'
+    );
+    const groups = new Map<number, string[]>();
+    for (const row of synonymRows) {
+      groups.set(row.group_id, [...(groups.get(row.group_id) ?? []), row.term]);
+    }
+
+    const stopWords: Partial<Record<Language, string[]>> = {};
+    for (const row of await this.all<{ language: Language; word: string }>(
+      'SELECT language, word FROM search_stop_words ORDER BY language, word'
+    )) {
+      (stopWords[row.language] ??= []).push(row.word);
+    }
+
+    return {
+      synonymGroups: Array.from(groups, ([id, terms]) => ({ id, terms })),
+      stopWords
+    };
+  }
+
+  // Adds terms to a synonym group, creating a new group without an id.
+  // Resolves to the group id.
+  async addSynonyms(terms: string[], groupId?: number): Promise<number> {
+    const id = await this.transaction(async () => {
+      let id = groupId;
+      if (id === undefined) {
+        const row = await this.get<{ next: number }>('SELECT COALESCE(MAX(group_id), 0) + 1 AS next FROM search_synonyms');
+        id = row!.next;
+      } else if (!(await this.get('SELECT 1 FROM search_synonyms WHERE group_id = ?', [id]))) {
+        throw new Error(`No synonym group with ID ${id}`);
+      }
+      for (const term of normalizeTags(terms)) {
+        await this.run('INSERT OR IGNORE INTO search_synonyms (group_id, term) VALUES (?, ?)', [id, term]);
+      }
+      return id;
+    });
+    this.emit('vocabulary');
+    return id;
+  }
+
+  // Removes terms from a group, or the whole group without terms.
+  // Resolves to the number of terms removed.
+  async removeSynonyms(groupId: number, terms?: string[]): Promise<number> {
+    const normalized = terms ? normalizeTags(terms) : [];
+    const { changes } = normalized.length > 0
+      ? await this.run(
+        `DELETE FROM search_synonyms WHERE group_id = ? AND term IN (${normalized.map(() => '?').join(', ')})`,
+        [groupId, ...normalized]
+      )
+      : await this.run('DELETE FROM search_synonyms WHERE group_id = ?', [groupId]);
+    if (changes > 0) {
+      this.emit('vocabulary');
+    }
+    return changes;
+  }
+
+  // Resolves to the number of words that were not already stop words
+  async addStopWords(language: Language, words: string[]): Promise<number> {
+    const added = await this.transaction(async () => {
+      let added = 0;
+      for (const word of normalizeTags(words)) {
+        const { changes } = await this.run(
+          'INSERT OR IGNORE INTO search_stop_words (language, word) VALUES (?, ?)',
+          [language, word]
+        );
+        added += changes;
+      }
+      return added;
+    });
+    if (added > 0) {
+      this.emit('vocabulary');
+    }
+    return added;
+  }
+
+  async removeStopWords(language: Language, words: string[]): Promise<number> {
+    const normalized = normalizeTags(words);
+    if (normalized.length === 0) {
+      return 0;
+    }
+    const { changes } = await this.run(
+      `DELETE FROM search_stop_words WHERE language = ? AND word IN (${normalized.map(() => '?').join(', ')})`,
+      [language, ...normalized]
+    );
+    if (changes > 0) {
+      this.emit('vocabulary');
+    }
+    return changes;
+  }
+
+  async getStats(): Promise<StoreStats> {
+    const counts = await this.get(`
+      SELECT
+        COUNT(*) AS memories,
+        COALESCE(SUM(m.pinned), 0) AS pinned,
+        COUNT(m.expires_at) AS expiring,
+        MIN(m.created_at) AS oldest,
+        MAX(m.created_at) AS newest,
+        (SELECT COUNT(*) FROM memories WHERE deleted_at IS NOT NULL) AS trashed,
+        (SELECT COUNT(*) FROM memory_revisions) AS revisions,
+        (SELECT COUNT(*) FROM memory_links) AS links,
+        (SELECT COUNT(*) FROM memory_embeddings) AS embeddings,
+        (SELECT MAX(version) FROM schema_version) AS schema_version
+      FROM memories m
+      WHERE ${LIVE_CONDITION}
+    `);
+    const namespaces = await this.all<{ namespace: string; count: number }>(`
+      SELECT m.namespace, COUNT(*) AS count
+      FROM memories m
+      WHERE m.namespace IS NOT NULL AND ${LIVE_CONDITION}
+      GROUP BY m.namespace
+      ORDER BY count DESC, m.namespace
+    `);
+    const tags = await this.all<{ tag: string; count: number }>(`
+      SELECT t.tag, COUNT(*) AS count
+      FROM memory_tags t
+      JOIN memories m ON m.id = t.memory_id
+      WHERE ${LIVE_CONDITION}
+      GROUP BY t.tag
+      ORDER BY count DESC, t.tag
+      LIMIT ?
+    `, [STATS_TAG_LIMIT]);
+    const size = await this.get<{ bytes: number }>(
+      'SELECT page_count * page_size AS bytes FROM pragma_page_count(), pragma_page_size()'
+    );
+
+    return {
+      ...counts,
+      namespaces,
+      tags,
+      encrypted: this.encrypted,
+      size_bytes: size!.bytes
+    };
+  }
+
+  async getRevisions(memoryId: number): Promise<MemoryRevision[]> {
+    const revisions = await this.all<MemoryRevision>(
+      'SELECT id, memory_id, content, revised_at FROM memory_revisions WHERE memory_id = ? ORDER BY id DESC',
+      [memoryId]
+    );
+    return revisions.map(revision => ({ ...revision, content: this.unseal(revision.content) }));
+  }
+
+  // Moves a memory to the trash; it stays restorable until purged
+  async deleteMemory(id: number): Promise<boolean> {
+    const deleted = await this.transaction(async () => {
+      const row = await this.get<{ content: string }>('SELECT content FROM memories WHERE id = ? AND deleted_at IS NULL', [id]);
+      if (!row) {
+        return false;
+      }
+      await this.run('UPDATE memories SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+      await this.audit({ operation: 'deleted', memory_id: id, before: this.unseal(row.content) });
+      return true;
+    });
+    if (deleted) {
+      this.notifyChange('deleted', [id]);
+    }
+    return deleted;
+  }
+
+  async restoreMemory(id: number): Promise<boolean> {
+    const restored = await this.transaction(async () => {
+      const row = await this.get<{ content: string }>('SELECT content FROM memories WHERE id = ? AND deleted_at IS NOT NULL', [id]);
+      if (!row) {
+        return false;
+      }
+      await this.run('UPDATE memories SET deleted_at = NULL WHERE id = ?', [id]);
+      await this.audit({ operation: 'restored', memory_id: id, after: this.unseal(row.content) });
+      return true;
+    });
+    if (restored) {
+      this.notifyChange('restored', [id]);
+    }
+    return restored;
+  }
+
+  async listTrash(limit: number): Promise<TrashedMemory[]> {
+    const rows = await this.all(`
+      SELECT ${this.memoryColumns}, m.deleted_at
+      FROM memories m
+      WHERE m.deleted_at IS NOT NULL
+      ORDER BY m.deleted_at DESC, m.id DESC
+      LIMIT ?
+    `, [limit]);
+    return rows.map(row => ({ ...this.toMemory(row), deleted_at: row.deleted_at }));
+  }
+
+  // Permanently removes memories that have sat in the trash longer than the
+  // purge window. Resolves to the number of memories removed.
+  async purgeDeleted(olderThanDays: number): Promise<number> {
+    const purged = await this.transaction(async () => {
+      const rows = await this.all<{ id: number; content: string }>(
+        "SELECT id, content FROM memories WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?)",
+        [`-${olderThanDays} days`]
+      );
+      await this.removeMemories(rows, 'purged');
+      return rows.length;
+    });
+    if (purged > 0) {
+      this.notifyChange('purged', []);
+    }
+    return purged;
+  }
+
+  // Permanently removes memories whose expiry has passed, trashed or not.
+  // Resolves to the number of memories removed.
+  async sweepExpired(): Promise<number> {
+    const ids = await this.transaction(async () => {
+      const rows = await this.all<{ id: number; content: string }>(
+        "SELECT id, content FROM memories WHERE expires_at IS NOT NULL AND datetime(expires_at) <= datetime('now')"
+      );
+      await this.removeMemories(rows, 'expired');
+      return rows.map(row => row.id);
+    });
+    if (ids.length > 0) {
+      this.notifyChange('expired', ids);
+    }
+    return ids.length;
+  }
+
+  // Deletes memories for good, recording their last text in the audit log.
+  // Must run inside a transaction.
+  private async removeMemories(rows: { id: number; content: string }[], operation: 'purged' | 'expired'): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+    for (const row of rows) {
+      await this.audit({ operation, memory_id: row.id, before: this.unseal(row.content) });
+    }
+    const ids = rows.map(row => row.id);
+    await this.run(`DELETE FROM memories WHERE id IN (${ids.map(() => '?').join(', ')})`, ids);
+    await this.pruneIndex();
   }
 
   async close(): Promise<void> {
@@ -115,4 +1251,31 @@ class DatabaseManager {
   }
 }
 
-export const db = new DatabaseManager();
\ No newline at end of file
+// A memory is live until it is trashed or its expiry passes
+function liveCondition(alias: string): string {
+  return `${alias}.deleted_at IS NULL AND (${alias}.expires_at IS NULL OR datetime(${alias}.expires_at) > datetime('now'))`;
+}
+
+const LIVE_CONDITION = liveCondition('m');
+
+// SQLite's CURRENT_TIMESTAMP format (UTC, no 'T' or zone). A time without a
+// zone is read as UTC too, so stored timestamps convert back unchanged.
+export function toSqlTimestamp(value: string): string {
+  const hasZone = /(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(value);
+  const date = new Date(hasZone || !value.includes(':') ? value : `${value.replace(' ', 'T')}Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}". Use ISO 8601, e.g. 2025-06-01 or 2025-06-01T12:00:00Z`);
+  }
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function bufferToVector(buffer: Buffer): Float32Array {
+  // Copy out of the (possibly unaligned) Buffer before viewing it as floats
+  const bytes = new Uint8Array(buffer);
+  return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / Float32Array.BYTES_PER_ELEMENT);
+}
+
+// Tags (and vocabulary terms) are case-insensitive; store them trimmed, lowercased and unique
+export function normalizeTags(tags: string[] = []): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0)));
+}
@@ -0,0 +1,179 @@
+import type { Memory } from './database.js';
+import { DEFAULT_IMPORTANCE } from './database.js';
+import { parseTimestamp } from './search.js';
+
+export const DEFAULT_DIGEST_TOKENS = 2000;
+
+// Characters of a memory shown when it is collapsed to a title
+const TITLE_CHARS = 80;
+
+// Days for a memory's recency to halve in the value ranking
+const VALUE_HALF_LIFE_DAYS = 30;
+
+// Share of the budget unpinned full memories may take, leaving room for titles
+const FULL_SHARE = 0.7;
+
+// A memory longer than this share of the budget is shown as a title
+const MAX_ENTRY_SHARE = 0.25;
+
+const TITLES_LINE = '- Titles only:';
+
+// Group for memories with neither a namespace nor a tag
+const UNGROUPED = 'Other';
+
+export interface Digest {
+  text: string;
+  // Estimated tokens of text
+  tokens: number;
+  // Memories shown in full, as titles, and only counted
+  full: number;
+  titles: number;
+  counted: number;
+}
+
+// Approximates a BPE tokenizer without shipping one: every run of letters or
+// digits costs one token per 4 characters (at least one), every other
+// non-space character one token
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu)) {
+    tokens += Math.max(1, Math.ceil(piece.length / 4));
+  }
+  return tokens;
+}
+
+// Importance scaled by how recently the memory was written and how often
+// reads return it; pinned memories are listed separately
+function valueOf(memory: Memory, now: number): number {
+  const ageDays = Math.max(0, (now - parseTimestamp(memory.updated_at ?? memory.created_at)) / (24 * 60 * 60 * 1000));
+  const recency = isNaN(ageDays) ? 0 : Math.pow(0.5, ageDays / VALUE_HALF_LIFE_DAYS);
+  const usage = Math.min(1, Math.log10(1 + memory.access_count) / 2);
+  return (memory.importance / DEFAULT_IMPORTANCE) * (1 + recency + usage);
+}
+
+function groupOf(memory: Memory): string {
+  if (memory.namespace) {
+    return `namespace ${memory.namespace}`;
+  }
+  return memory.tags.length > 0 ? `#${memory.tags[0]}` : UNGROUPED;
+}
+
+function fullLine(memory: Memory): string {
+  return `- #${memory.id}: ${memory.content.trim().replace(/\n/g, '\n  ')}`;
+}
+
+function titleLine(memory: Memory): string {
+  const text = memory.content.replace(/\s+/g, ' ').trim();
+  return `  - #${memory.id} ${text.length > TITLE_CHARS ? `${text.slice(0, TITLE_CHARS)}...` : text}`;
+}
+
+interface DigestGroup {
+  name: string;
+  memories: Memory[];
+  full: Memory[];
+  titles: Memory[];
+}
+
+// Summarises memories within a token budget: pinned memories first, then
+// the most valuable memories in full, grouped by namespace or first tag.
+// Whatever does not fit is listed by title, and what does not fit as a
+// title is only counted.
+export function buildDigest(memories: Memory[], budget: number, heading: string): Digest {
+  const now = Date.now();
+  const value = new Map(memories.map(memory => [memory.id, valueOf(memory, now)]));
+  const byValue = (a: Memory, b: Memory) => value.get(b.id)! - value.get(a.id)! || b.id - a.id;
+
+  const pinned = memories.filter(memory => memory.pinned).sort(byValue);
+  const others = memories.filter(memory => !memory.pinned).sort(byValue);
+  // Groups are listed in order of their most valuable memory
+  const groups = new Map<string, DigestGroup>();
+  for (const memory of others) {
+    const name = groupOf(memory);
+    if (!groups.has(name)) {
+      groups.set(name, { name, memories: [], full: [], titles: [] });
+    }
+    groups.get(name)!.memories.push(memory);
+  }
+  const pinnedGroup: DigestGroup = { name: 'Pinned', memories: pinned, full: [], titles: [] };
+
+  const header = `# ${heading}: ${memories.length} memories${pinned.length > 0 ? `, ${pinned.length} pinned` : ''}`;
+  const footer = 'Call read with an id or a query for anything shown here only as a title or a count.';
+  const headingLine = (group: DigestGroup) => `## ${group.name} (${group.memories.length})`;
+  const countLine = (hidden: number, shown: boolean) => `  (${hidden} ${shown ? 'more ' : ''}not shown)`;
+
+  const foldedLine = (folded: DigestGroup[]) => {
+    const count = folded.reduce((sum, group) => sum + group.memories.length, 0);
+    return `## ${folded.length} more group${folded.length === 1 ? '' : 's'} (${count} not shown)`;
+  };
+
+  // The header, and a heading and count line for each group, are paid for
+  // before any memory, so no group disappears silently. Groups whose lines
+  // no longer fit are folded into one line at the end.
+  const allGroups = [pinnedGroup, ...groups.values()].filter(group => group.memories.length > 0);
+  let used = estimateTokens(header) + estimateTokens(footer);
+  const listed: DigestGroup[] = [];
+  for (const [index, group] of allGroups.entries()) {
+    const cost = estimateTokens(headingLine(group)) + estimateTokens(countLine(group.memories.length, true));
+    const rest = allGroups.slice(index + 1);
+    const reserve = rest.length > 0 ? estimateTokens(foldedLine(rest)) : 0;
+    if (used + cost + reserve > budget) {
+      break;
+    }
+    listed.push(group);
+    used += cost;
+  }
+  const folded = allGroups.slice(listed.length);
+  if (folded.length > 0) {
+    used += estimateTokens(foldedLine(folded));
+  }
+  const fullLimit = used + (budget - used) * FULL_SHARE;
+  const maxEntry = (budget - used) * MAX_ENTRY_SHARE;
+
+  // Pinned memories come first, then the rest by value across the listed groups
+  const groupFor = (memory: Memory) => memory.pinned ? pinnedGroup : groups.get(groupOf(memory))!;
+  const ranked = [...pinned, ...others].filter(memory => listed.includes(groupFor(memory)));
+  const collapsed: Memory[] = [];
+  // Pinned memories may use the whole budget, and a memory no longer than
+  // its title is never too long to show
+  for (const memory of ranked) {
+    const cost = estimateTokens(fullLine(memory));
+    const short = memory.content.trim().length <= TITLE_CHARS;
+    if ((short || cost <= maxEntry) && used + cost <= (memory.pinned ? budget : fullLimit)) {
+      groupFor(memory).full.push(memory);
+      used += cost;
+    } else {
+      collapsed.push(memory);
+    }
+  }
+  for (const memory of collapsed) {
+    const group = groupFor(memory);
+    const cost = estimateTokens(titleLine(memory)) + (group.titles.length === 0 ? estimateTokens(TITLES_LINE) : 0);
+    if (used + cost <= budget) {
+      group.titles.push(memory);
+      used += cost;
+    }
+  }
+
+  const sections = listed.map(group => {
+    const lines = [headingLine(group), ...group.full.map(fullLine)];
+    if (group.titles.length > 0) {
+      lines.push(TITLES_LINE, ...group.titles.map(titleLine));
+    }
+    const hidden = group.memories.length - group.full.length - group.titles.length;
+    if (hidden > 0) {
+      lines.push(countLine(hidden, group.full.length + group.titles.length > 0));
+    }
+    return lines.join('\n');
+  });
+  if (folded.length > 0) {
+    sections.push(foldedLine(folded));
+  }
+
+  const full = listed.reduce((sum, group) => sum + group.full.length, 0);
+  const titles = listed.reduce((sum, group) => sum + group.titles.length, 0);
+  const text = memories.length === 0
+    ? `${header}\n\nNo memories saved yet.`
+    : `${header}\n\n${sections.join('\n\n')}\n\n${full < memories.length ? footer : ''}`.trimEnd();
+
+  return { text, tokens: estimateTokens(text), full, titles, counted: memories.length - full - titles };
+}
@@ -0,0 +1,73 @@
+import type { DatabaseManager, MemoryFilters } from './database.js';
+import type { FastSemanticSearch, SearchResult } from './search.js';
+
+// What a NEW write does when it looks like an existing memory:
+// reject it, merge it into the existing memory, save it with a warning, or
+// save it without checking
+export type DuplicatePolicy = 'reject' | 'merge' | 'flag' | 'allow';
+
+export const DUPLICATE_POLICIES: readonly DuplicatePolicy[] = ['reject', 'merge', 'flag', 'allow'];
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'flag';
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+// An original memory (the oldest) and the later memories that duplicate it;
+// each duplicate's relevanceScore is its similarity to the original
+export interface DuplicateGroup {
+  original: SearchResult;
+  duplicates: SearchResult[];
+}
+
+// Memories compared per maintenance scan
+const SCAN_LIMIT = 10000;
+
+// Finds near-duplicate memories with the text matcher's similarity scoring
+class DuplicateDetector {
+  constructor(
+    private db: DatabaseManager,
+    private matcher: FastSemanticSearch,
+    readonly policy: DuplicatePolicy = DEFAULT_DUPLICATE_POLICY,
+    readonly threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+  ) {}
+
+  // The existing memory a new write most resembles, if any clears the
+  // threshold. Excluded ids (e.g. memories the write supersedes) never match.
+  async findMatch(content: string, namespace?: string, excludeIds: number[] = []): Promise<SearchResult | undefined> {
+    const matches = await this.matcher.findSimilar(content, this.threshold, { namespace }, excludeIds.length + 1);
+    return matches.find(match => !excludeIds.includes(match.id));
+  }
+
+  // Groups every duplicated memory in the store under its oldest copy
+  async findGroups(filters: MemoryFilters = {}, threshold: number = this.threshold): Promise<DuplicateGroup[]> {
+    const memories = await this.db.listMemories(SCAN_LIMIT, filters, 0, 'created');
+    const scanned = new Set(memories.map(memory => memory.id));
+    const grouped = new Set<number>();
+    const groups: DuplicateGroup[] = [];
+
+    for (const memory of memories) {
+      if (grouped.has(memory.id)) {
+        continue;
+      }
+
+      const matches = await this.matcher.findSimilar(memory.content, threshold, filters, memories.length);
+      const duplicates = matches.filter(match =>
+        match.id !== memory.id && scanned.has(match.id) && !grouped.has(match.id)
+      );
+      if (duplicates.length === 0) {
+        continue;
+      }
+
+      grouped.add(memory.id);
+      duplicates.forEach(duplicate => grouped.add(duplicate.id));
+      groups.push({
+        original: { ...memory, relevanceScore: 1, matchType: 'original' },
+        duplicates: duplicates.sort((a, b) => a.id - b.id)
+      });
+    }
+
+    return groups;
+  }
+}
+
+export { DuplicateDetector };
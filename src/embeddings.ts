@@ -0,0 +1,143 @@
+import { basename, dirname, resolve } from 'path';
+
+export interface Embedder {
+  // Identifies the model; vectors are stored per id so switching models re-embeds
+  readonly id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+// Deterministic feature-hashing embedder. No model, no I/O - meant for tests
+// and as a zero-setup fallback. Similarity is lexical (words + character
+// trigrams), so it catches typos and inflections but not meaning.
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number = 256) {
+    this.id = `hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so collisions tend to cancel out
+    vector[hash % this.dimensions] += (hash & 0x80000000) ? -weight : weight;
+  }
+}
+
+// Sentence-embedding model run on the CPU through transformers.js, loaded from
+// a local directory only (nothing is downloaded). The package is optional and
+// only imported when this embedder is used.
+export class LocalModelEmbedder implements Embedder {
+  readonly id: string;
+  private extractor: Promise<any> | null = null;
+
+  constructor(private readonly modelPath: string) {
+    this.id = `local:${basename(resolve(modelPath))}`;
+  }
+
+  private load(): Promise<any> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const moduleName = '@huggingface/transformers';
+        let transformers: any;
+        try {
+          transformers = await import(moduleName);
+        } catch {
+          throw new Error(`Local embeddings need the optional "${moduleName}" package. Install it with: npm install ${moduleName}`);
+        }
+
+        const modelDir = resolve(this.modelPath);
+        transformers.env.allowRemoteModels = false;
+        transformers.env.localModelPath = dirname(modelDir);
+
+        return transformers.pipeline('feature-extraction', basename(modelDir), { device: 'cpu' });
+      })();
+      // Allow a retry after a failed load (e.g. package installed later)
+      this.extractor.catch(() => { this.extractor = null; });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const extractor = await this.load();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return (output.tolist() as number[][]).map(vector => Float32Array.from(vector));
+  }
+}
+
+export type EmbedderKind = 'hash' | 'local';
+
+export function createEmbedder(kind: EmbedderKind, modelPath?: string): Embedder {
+  if (kind === 'hash') {
+    return new HashingEmbedder();
+  }
+  if (!modelPath) {
+    throw new Error('Local embeddings need a model directory: pass --embedding-model <path> or set INKED_EMBEDDING_MODEL');
+  }
+  return new LocalModelEmbedder(modelPath);
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+// 32-bit FNV-1a, unsigned
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
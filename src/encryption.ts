@@ -0,0 +1,144 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { promisify } from 'util';
+
+// Where a store's key comes from: a passphrase stretched with scrypt, or a
+// file holding 32 random bytes (see writeKeyFile)
+export type KeySource =
+  | { kind: 'passphrase'; passphrase: string }
+  | { kind: 'key-file'; path: string };
+
+// The row an encrypted store keeps in its encryption table. check_value is a
+// known plaintext sealed with the key, so a wrong key fails before any memory
+// is read.
+export interface EncryptionSettings {
+  key_source: KeySource['kind'];
+  salt: string | null;
+  check_value: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const SALT_LENGTH = 16;
+
+// Sealed values are "enc1:" + base64(iv | auth tag | ciphertext)
+const SEALED_PREFIX = 'enc1:';
+
+// N = 2^15 takes ~100ms and 32 MiB, once per store open
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+const CHECK_PLAINTEXT = 'inked';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: typeof SCRYPT_OPTIONS
+) => Promise<Buffer>;
+
+// AES-256-GCM over individual text values. Every value gets a fresh IV, so
+// the same text never encrypts the same way twice.
+class ContentCipher {
+  constructor(private readonly key: Buffer) {}
+
+  static isSealed(value: string): boolean {
+    return value.startsWith(SEALED_PREFIX);
+  }
+
+  seal(plaintext: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return SEALED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  open(value: string): string {
+    const data = Buffer.from(value.slice(SEALED_PREFIX.length), 'base64');
+    if (data.length < IV_LENGTH + TAG_LENGTH) {
+      throw new Error('Encrypted value is truncated');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    try {
+      return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error('Cannot decrypt memory: wrong key or corrupted data');
+    }
+  }
+}
+
+// Accepts the raw 32 bytes or the same bytes as base64 or hex text
+async function readKeyFile(path: string): Promise<Buffer> {
+  let data: Buffer;
+  try {
+    data = await readFile(path);
+  } catch (error: any) {
+    throw new Error(`Cannot read key file ${path}: ${error.message}`);
+  }
+
+  if (data.length === KEY_LENGTH) {
+    return data;
+  }
+  const text = data.toString('utf8').trim();
+  const key = /^[0-9a-f]+$/i.test(text) ? Buffer.from(text, 'hex') : Buffer.from(text, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Key file ${path} must hold ${KEY_LENGTH} bytes (raw, base64 or hex). Create one with "inked keygen <file>".`);
+  }
+  return key;
+}
+
+async function deriveKey(source: KeySource, salt: Buffer | null): Promise<Buffer> {
+  if (source.kind === 'key-file') {
+    return readKeyFile(source.path);
+  }
+  if (!source.passphrase) {
+    throw new Error('Passphrase must not be empty');
+  }
+  return scryptAsync(source.passphrase, salt!, KEY_LENGTH, SCRYPT_OPTIONS);
+}
+
+// A new key for a store: fresh salt and check value
+export async function createEncryption(source: KeySource): Promise<{ cipher: ContentCipher; settings: EncryptionSettings }> {
+  const salt = source.kind === 'passphrase' ? randomBytes(SALT_LENGTH) : null;
+  const cipher = new ContentCipher(await deriveKey(source, salt));
+  return {
+    cipher,
+    settings: {
+      key_source: source.kind,
+      salt: salt?.toString('base64') ?? null,
+      check_value: cipher.seal(CHECK_PLAINTEXT)
+    }
+  };
+}
+
+// The cipher for a store's existing key, after checking the key is the right one
+export async function openEncryption(source: KeySource, settings: EncryptionSettings): Promise<ContentCipher> {
+  if (source.kind !== settings.key_source) {
+    throw new Error(settings.key_source === 'passphrase'
+      ? 'This store is encrypted with a passphrase. Set INKED_PASSPHRASE instead of a key file.'
+      : 'This store is encrypted with a key file. Pass --key-file instead of a passphrase.');
+  }
+
+  const cipher = new ContentCipher(await deriveKey(source, settings.salt ? Buffer.from(settings.salt, 'base64') : null));
+  try {
+    cipher.open(settings.check_value);
+  } catch {
+    throw new Error(source.kind === 'passphrase' ? 'Wrong passphrase for this store' : 'Wrong key file for this store');
+  }
+  return cipher;
+}
+
+// Writes a new random key as base64, readable by the owner only. Never
+// overwrites an existing file, which may be the only copy of a key.
+export async function writeKeyFile(path: string): Promise<void> {
+  try {
+    await writeFile(path, `${randomBytes(KEY_LENGTH).toString('base64')}\n`, { mode: 0o600, flag: 'wx' });
+  } catch (error: any) {
+    throw new Error(error.code === 'EEXIST' ? `${path} already exists` : `Cannot write key file ${path}: ${error.message}`);
+  }
+}
+
+export { ContentCipher };
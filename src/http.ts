@@ -0,0 +1,183 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Connects a new client's transport to its own MCP session
+export type SessionFactory = (transport: Transport) => Promise<void>;
+
+export interface HttpServerOptions {
+  port: number;
+  token: string;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  // Ends every open session, then stops listening
+  close(): Promise<void>;
+}
+
+// Streamable HTTP (current protocol) and HTTP+SSE (2024-11-05 clients)
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+// Only ever reachable from this machine
+const HOST = '127.0.0.1';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Compares digests so neither the token nor its length leaks through timing
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const presented = header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {})
+  });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+// Serves MCP over HTTP on localhost. Every client session gets its own
+// transport and MCP session from connectSession; all of them share the
+// server's stores.
+export async function startHttpServer(options: HttpServerOptions, connectSession: SessionFactory): Promise<HttpServerHandle> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? streamableTransports.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      if (!existing) {
+        throw new HttpError(sessionId ? 404 : 400, sessionId ? 'Unknown session' : 'Missing Mcp-Session-Id header');
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId) {
+      throw new HttpError(404, 'Unknown session');
+    }
+    if (!isInitializeRequest(body)) {
+      throw new HttpError(400, 'A session starts with an initialize request');
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        streamableTransports.set(id, transport);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+      }
+    };
+    await connectSession(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSse(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      sseTransports.set(transport.sessionId, transport);
+      res.on('close', () => sseTransports.delete(transport.sessionId));
+      await connectSession(transport);
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      const transport = sseTransports.get(url.searchParams.get('sessionId') ?? '');
+      if (!transport) {
+        throw new HttpError(404, 'Unknown session');
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  const server = createServer(async (req, res) => {
+    try {
+      if (!tokenMatches(req.headers.authorization, options.token)) {
+        throw new HttpError(401, 'Missing or invalid bearer token');
+      }
+
+      const url = new URL(req.url ?? '/', `http://${HOST}`);
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === SSE_PATH || url.pathname === SSE_MESSAGES_PATH) {
+        await handleSse(req, res, url);
+      } else {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+      } else {
+        console.error('HTTP request failed:', error);
+        sendError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, HOST, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    url: `http://${HOST}:${options.port}`,
+    async close() {
+      const transports = [...streamableTransports.values(), ...sseTransports.values()];
+      await Promise.allSettled(transports.map(transport => transport.close()));
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+}
@@ -0,0 +1,116 @@
+import type { MemoryFilters } from './database.js';
+import type { SearchResult, SemanticMatcher } from './search.js';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface HybridComponent {
+  name: string;
+  matcher: SemanticMatcher;
+  weight: number;
+}
+
+interface FusedResult {
+  result: SearchResult;
+  score: number;
+  // Per-matcher share of the fused score, with that matcher's own match type
+  contributions: Map<string, { score: number; matchType: string }>;
+}
+
+// Runs several matchers and fuses their rankings into one list
+class HybridSearch implements SemanticMatcher {
+  // Reciprocal rank fusion damping constant (the usual value from the RRF paper)
+  private readonly rrfK = 60;
+
+  // Each matcher ranks a wider pool than requested so fusion has overlap to work with
+  private readonly candidateMultiplier = 4;
+  private readonly minCandidates = 20;
+
+  private readonly components: HybridComponent[];
+
+  // Matchers whose failure has been logged; cleared when they work again
+  private readonly failing = new Set<string>();
+
+  constructor(components: HybridComponent[], private method: FusionMethod = 'rrf') {
+    // A zero weight switches a matcher off entirely
+    this.components = components.filter(component => component.weight > 0);
+    if (this.components.length === 0) {
+      throw new Error('Hybrid search needs at least one matcher with a positive weight');
+    }
+  }
+
+  async searchMemories(query: string, limit: number = 3, filters: MemoryFilters = {}): Promise<SearchResult[]> {
+    // Handle "ALL" special case - no ranking to fuse
+    if (query.toUpperCase() === 'ALL') {
+      return this.components[0].matcher.searchMemories(query, limit, filters);
+    }
+
+    // A failing matcher (say, an embedding model that will not load) drops
+    // out of the fusion instead of failing the search. Only when every
+    // matcher fails, e.g. on a malformed query, does the search fail.
+    const poolSize = Math.max(limit * this.candidateMultiplier, this.minCandidates);
+    const outcomes = await Promise.allSettled(
+      this.components.map(component => component.matcher.searchMemories(query, poolSize, filters))
+    );
+    if (outcomes.every(outcome => outcome.status === 'rejected')) {
+      throw (outcomes[0] as PromiseRejectedResult).reason;
+    }
+
+    const fused = new Map<number, FusedResult>();
+
+    this.components.forEach((component, index) => {
+      const outcome = outcomes[index];
+      if (outcome.status === 'rejected') {
+        if (!this.failing.has(component.name)) {
+          this.failing.add(component.name);
+          console.error(`${component.name} search failed, using the other matchers:`,
+            outcome.reason instanceof Error ? outcome.reason.message : outcome.reason);
+        }
+        return;
+      }
+      this.failing.delete(component.name);
+      const ranking = outcome.value;
+      const maxScore = Math.max(...ranking.map(result => result.relevanceScore), 0);
+
+      ranking.forEach((result, rank) => {
+        const score = this.method === 'rrf'
+          ? component.weight / (this.rrfK + rank + 1)
+          : component.weight * (maxScore > 0 ? result.relevanceScore / maxScore : 0);
+
+        let entry = fused.get(result.id);
+        if (!entry) {
+          entry = { result, score: 0, contributions: new Map() };
+          fused.set(result.id, entry);
+        }
+        entry.score += score;
+        entry.contributions.set(component.name, { score, matchType: result.matchType });
+      });
+    });
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(entry => ({
+        ...entry.result,
+        relevanceScore: Math.round(entry.score * 10000) / 10000,
+        matchType: this.describeMatch(entry)
+      }));
+  }
+
+  async indexMemory(id: number, content: string): Promise<void> {
+    await Promise.all(this.components.map(component => component.matcher.indexMemory?.(id, content)));
+  }
+
+  // e.g. "hybrid-rrf: lexical 0.62 (exact), vector 0.38 (vector)"
+  private describeMatch(entry: FusedResult): string {
+    const parts = this.components
+      .filter(component => entry.contributions.has(component.name))
+      .map(component => {
+        const contribution = entry.contributions.get(component.name)!;
+        const share = entry.score > 0 ? contribution.score / entry.score : 0;
+        return `${component.name} ${share.toFixed(2)} (${contribution.matchType})`;
+      });
+    return `hybrid-${this.method}: ${parts.join(', ')}`;
+  }
+}
+
+export { HybridSearch };
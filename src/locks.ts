@@ -0,0 +1,87 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+
+// Every process with a store open leaves a marker file next to it, and
+// encrypt, rotate-key and decrypt hold an exclusive lock file while they
+// rewrite it. Each side writes its own file before looking for the other's,
+// so at least one of two racing processes sees the other and backs off.
+// Markers of processes that are gone are ignored and cleaned up.
+
+export type Release = () => Promise<void>;
+
+function usersDir(dbPath: string): string {
+  return `${dbPath}.users`;
+}
+
+function lockFile(dbPath: string): string {
+  return `${dbPath}.lock`;
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Pid of the process rewriting the store, if one is
+async function rewritingPid(dbPath: string): Promise<number | undefined> {
+  const pid = Number(await readFile(lockFile(dbPath), 'utf8').catch(() => ''));
+  return pid > 0 && isRunning(pid) ? pid : undefined;
+}
+
+// Marks the store as open by this process until the returned function is
+// called. Fails while another process is rewriting the store's encryption.
+export async function markInUse(dbPath: string): Promise<Release> {
+  await mkdir(usersDir(dbPath), { recursive: true, mode: 0o700 });
+  const marker = join(usersDir(dbPath), `${process.pid}.${randomBytes(4).toString('hex')}`);
+  await writeFile(marker, '', { flag: 'wx' });
+  const release = () => rm(marker, { force: true });
+
+  const rewriter = await rewritingPid(dbPath);
+  if (rewriter !== undefined) {
+    await release();
+    throw new Error(`${dbPath} is being rewritten by process ${rewriter} (encrypt, rotate-key or decrypt); try again when it finishes`);
+  }
+  return release;
+}
+
+// Takes the store for a rewrite until the returned function is called.
+// Fails while any other process has it open or is rewriting it.
+export async function lockForRewrite(dbPath: string): Promise<Release> {
+  const file = lockFile(dbPath);
+  const rewriter = await rewritingPid(dbPath);
+  if (rewriter !== undefined) {
+    throw new Error(`${dbPath} is already being rewritten by process ${rewriter}`);
+  }
+  // Left behind by a rewrite that did not finish
+  await rm(file, { force: true });
+  try {
+    await writeFile(file, String(process.pid), { flag: 'wx', mode: 0o600 });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`${dbPath} is already being rewritten by another process`);
+    }
+    throw error;
+  }
+  const release = () => rm(file, { force: true });
+
+  const users = new Set<number>();
+  for (const marker of await readdir(usersDir(dbPath)).catch(() => [] as string[])) {
+    const pid = Number(marker.split('.')[0]);
+    if (isRunning(pid)) {
+      users.add(pid);
+    } else {
+      await rm(join(usersDir(dbPath), marker), { force: true });
+    }
+  }
+  if (users.size > 0) {
+    await release();
+    throw new Error(`${dbPath} is open in process ${[...users].join(', ')}; stop the server (and any other inked command using this store) first`);
+  }
+  return release;
+}
@@ -0,0 +1,218 @@
+import { DEFAULT_SYNONYM_GROUPS, DEFAULT_STOP_WORDS } from './vocabulary.js';
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Statements run inside a single transaction and are recorded in
+  // schema_version so they apply once. Versions 1-2 use IF NOT EXISTS because
+  // stores created before versioning already have those tables.
+  up: string;
+}
+
+// Ordered list of schema changes. Never edit a released migration - append a new one.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create memories table',
+    up: `
+      CREATE TABLE IF NOT EXISTS memories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `
+  },
+  {
+    version: 2,
+    description: 'Add FTS5 full-text index over memory content',
+    // Triggers keep the index in sync with every write path, including
+    // external sqlite edits; 'rebuild' backfills rows written before it existed
+    up: `
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+        content,
+        content='memories',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+      CREATE TRIGGER IF NOT EXISTS memories_fts_ai AFTER INSERT ON memories BEGIN
+        INSERT INTO memories_fts(rowid, content) VALUES (new.id, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS memories_fts_ad AFTER DELETE ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS memories_fts_au AFTER UPDATE OF content ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        INSERT INTO memories_fts(rowid, content) VALUES (new.id, new.content);
+      END;
+      INSERT INTO memories_fts(memories_fts) VALUES ('rebuild');
+    `
+  },
+  {
+    version: 3,
+    description: 'Add namespaces and tags to memories',
+    up: `
+      ALTER TABLE memories ADD COLUMN namespace TEXT;
+      CREATE INDEX IF NOT EXISTS idx_memories_namespace ON memories(namespace);
+      CREATE TABLE IF NOT EXISTS memory_tags (
+        memory_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (memory_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_tags_tag ON memory_tags(tag);
+    `
+  },
+  {
+    version: 4,
+    description: 'Track in-place edits with updated_at and a revision history',
+    up: `
+      ALTER TABLE memories ADD COLUMN updated_at DATETIME;
+      CREATE TABLE IF NOT EXISTS memory_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        memory_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        revised_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_revisions_memory ON memory_revisions(memory_id);
+    `
+  },
+  {
+    version: 5,
+    description: 'Soft delete: move deleted memories to a trash via deleted_at',
+    up: `
+      ALTER TABLE memories ADD COLUMN deleted_at DATETIME;
+      CREATE INDEX IF NOT EXISTS idx_memories_deleted_at ON memories(deleted_at);
+    `
+  },
+  {
+    version: 6,
+    description: 'Store per-memory embedding vectors for semantic search',
+    // Editing a memory drops its vectors so they get recomputed from the new text
+    up: `
+      CREATE TABLE IF NOT EXISTS memory_embeddings (
+        memory_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        model TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (memory_id, model)
+      );
+      CREATE TRIGGER IF NOT EXISTS memory_embeddings_stale AFTER UPDATE OF content ON memories BEGIN
+        DELETE FROM memory_embeddings WHERE memory_id = new.id;
+      END;
+    `
+  },
+  {
+    version: 7,
+    description: 'Add importance, pinning and expiry to memories',
+    up: `
+      ALTER TABLE memories ADD COLUMN importance INTEGER NOT NULL DEFAULT 3;
+      ALTER TABLE memories ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memories ADD COLUMN expires_at DATETIME;
+      CREATE INDEX IF NOT EXISTS idx_memories_expires_at ON memories(expires_at);
+    `
+  },
+  {
+    version: 8,
+    description: 'Track how often and how recently reads return each memory',
+    up: `
+      ALTER TABLE memories ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memories ADD COLUMN last_accessed_at DATETIME;
+    `
+  },
+  {
+    version: 9,
+    description: 'Add typed links between memories',
+    up: `
+      CREATE TABLE IF NOT EXISTS memory_links (
+        source_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        target_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        relation TEXT NOT NULL CHECK (relation IN ('relates_to', 'supersedes', 'contradicts', 'part_of')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (source_id, target_id, relation),
+        CHECK (source_id != target_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_links_target ON memory_links(target_id);
+    `
+  },
+  {
+    version: 10,
+    description: 'Add per-memory language and an editable search vocabulary',
+    // NULL language means the store's default language
+    up: `
+      ALTER TABLE memories ADD COLUMN language TEXT;
+      CREATE TABLE IF NOT EXISTS search_synonyms (
+        group_id INTEGER NOT NULL,
+        term TEXT NOT NULL,
+        PRIMARY KEY (group_id, term)
+      );
+      CREATE TABLE IF NOT EXISTS search_stop_words (
+        language TEXT NOT NULL,
+        word TEXT NOT NULL,
+        PRIMARY KEY (language, word)
+      );
+      ${seedVocabulary()}
+    `
+  },
+  {
+    version: 11,
+    description: 'Record the key check of encrypted stores',
+    // A row here means memory and revision content is sealed with AES-GCM
+    up: `
+      CREATE TABLE IF NOT EXISTS encryption (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        key_source TEXT NOT NULL CHECK (key_source IN ('passphrase', 'key-file')),
+        salt TEXT,
+        check_value TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `
+  },
+  {
+    version: 12,
+    description: 'Add an append-only audit log of memory changes',
+    // No foreign key: entries must outlive the memories they describe. Only
+    // the content columns may change, so key rotation can re-encrypt them.
+    up: `
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        occurred_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        memory_id INTEGER,
+        related_id INTEGER,
+        operation TEXT NOT NULL,
+        detail TEXT,
+        client_name TEXT,
+        client_version TEXT,
+        tool TEXT,
+        arguments TEXT,
+        before_content TEXT,
+        after_content TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_memory ON audit_log(memory_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_related ON audit_log(related_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at);
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'The audit log is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_rewrite
+      BEFORE UPDATE OF id, occurred_at, memory_id, related_id, operation, detail, client_name, client_version, tool
+      ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'The audit log is append-only');
+      END;
+    `
+  }
+];
+
+function seedVocabulary(): string {
+  const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+  const synonyms = DEFAULT_SYNONYM_GROUPS.flatMap((terms, index) =>
+    terms.map(term => `(${index + 1}, ${quote(term)})`)
+  );
+  const stopWords = Object.entries(DEFAULT_STOP_WORDS).flatMap(([language, words]) =>
+    words.map(word => `(${quote(language)}, ${quote(word)})`)
+  );
+  return `
+      INSERT OR IGNORE INTO search_synonyms (group_id, term) VALUES ${synonyms.join(', ')};
+      INSERT OR IGNORE INTO search_stop_words (language, word) VALUES ${stopWords.join(', ')};`;
+}
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
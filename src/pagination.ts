@@ -0,0 +1,17 @@
+// Opaque page cursors shared by the read tool and resources/list. Clients must
+// treat them as tokens; internally they are a base64-encoded offset.
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset }), 'utf8').toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor "${cursor}"`);
+}
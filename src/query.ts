@@ -0,0 +1,347 @@
+import { normalizeTags, toSqlTimestamp } from './database.js';
+import type { MemoryFilters } from './database.js';
+
+// Fields a query can filter on, e.g. tag:work, id:42 or after:2025-06-01
+export type QueryField = 'tag' | 'id' | 'before' | 'after';
+
+const QUERY_FIELDS: readonly QueryField[] = ['tag', 'id', 'before', 'after'];
+
+// Parsed read query. Plain words side by side become an OR ranked like a
+// plain search; phrases, exclusions, fields and groups next to them must
+// all hold as well.
+export type QueryNode =
+  | { type: 'term'; word: string }
+  | { type: 'prefix'; prefix: string }
+  | { type: 'phrase'; words: string[] }
+  | { type: 'field'; field: QueryField; value: string }
+  | { type: 'not'; node: QueryNode }
+  | { type: 'and'; nodes: QueryNode[] }
+  | { type: 'or'; nodes: QueryNode[] };
+
+type Token =
+  | { kind: 'word' | 'phrase'; text: string; position: number }
+  | { kind: 'field'; field: QueryField; value: string; position: number }
+  | { kind: 'not' | 'and' | 'or' | 'open' | 'close'; position: number };
+
+// A clause of a sequence, and whether it is a plain word that only ranks
+interface Clause {
+  nodes: QueryNode[];
+  optional: boolean;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+// Shorter prefixes would match almost every memory
+const MIN_PREFIX_LENGTH = 2;
+
+function syntaxError(message: string): Error {
+  return new Error(`Invalid search query: ${message}`);
+}
+
+// Lowercased words of a text, split on anything but letters and digits
+export function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(WORD_PATTERN) ?? [];
+}
+
+function fieldValue(field: QueryField, value: string, position: number): string {
+  switch (field) {
+    case 'tag': {
+      const [tag] = normalizeTags([value]);
+      if (!tag) {
+        throw syntaxError(`missing tag after "tag:" at character ${position}`);
+      }
+      return tag;
+    }
+    case 'id':
+      if (!/^\d+$/.test(value) || Number(value) === 0) {
+        throw syntaxError(`invalid memory ID "${value}" at character ${position}, e.g. id:42`);
+      }
+      return String(Number(value));
+    case 'before':
+    case 'after':
+      // Stored the way SQLite writes timestamps (UTC), so values compare as strings
+      try {
+        return toSqlTimestamp(value);
+      } catch {
+        throw syntaxError(`invalid date "${value}" at character ${position}: use ISO 8601, e.g. ${field}:2025-06-01`);
+      }
+  }
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  // Reads a quoted phrase starting at index; positions are 1-based
+  const readQuoted = (): string => {
+    const end = query.indexOf('"', index + 1);
+    if (end === -1) {
+      throw syntaxError(`missing closing quote for the phrase at character ${index + 1}`);
+    }
+    const text = query.slice(index + 1, end);
+    index = end + 1;
+    return text;
+  };
+
+  while (index < query.length) {
+    const char = query[index];
+    const position = index + 1;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position });
+      index++;
+    } else if (char === '"') {
+      tokens.push({ kind: 'phrase', text: readQuoted(), position });
+    } else if (char === '-' && /[\p{L}\p{N}_"(]/u.test(query[index + 1] ?? '')) {
+      // Only a leading "-" excludes; one inside or after a word is punctuation
+      tokens.push({ kind: 'not', position });
+      index++;
+    } else {
+      // A word runs to the next space, quote or parenthesis
+      let end = index;
+      while (end < query.length && !/[\s"()]/.test(query[end])) {
+        end++;
+      }
+      const text = query.slice(index, end);
+      index = end;
+
+      const field = text.match(/^([a-z]+):(.*)$/is);
+      const name = field?.[1].toLowerCase() as QueryField;
+      if (field && QUERY_FIELDS.includes(name)) {
+        // tag:"two words" quotes a value with spaces
+        const value = field[2] === '' && query[index] === '"' ? readQuoted() : field[2];
+        if (value === '') {
+          throw syntaxError(`missing value after "${name}:" at character ${position}`);
+        }
+        tokens.push({ kind: 'field', field: name, value: fieldValue(name, value, position), position });
+      } else if (text === 'AND' || text === 'OR') {
+        tokens.push({ kind: text === 'AND' ? 'and' : 'or', position });
+      } else if (wordsOf(text).length > 0) {
+        // Words without letters or digits are dropped, as a plain search does
+        tokens.push({ kind: 'word', text, position });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function either(nodes: QueryNode[]): QueryNode {
+  return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+}
+
+function all(nodes: QueryNode[]): QueryNode {
+  return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+}
+
+// Recursive descent over the tokens; OR binds loosest, then AND, then
+// words side by side:
+//   query    := and ("OR" and)*
+//   and      := sequence ("AND" sequence)*
+//   sequence := unary+
+//   unary    := "-" unary | "(" query ")" | phrase | field | word
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode {
+    const query = this.parseOr();
+    const extra = this.tokens[this.index];
+    if (extra) {
+      // parseOr only stops early at a closing parenthesis
+      throw syntaxError(`unmatched ")" at character ${extra.position}`);
+    }
+    return query;
+  }
+
+  private parseOr(): QueryNode {
+    const nodes = [this.parseAnd()];
+    while (this.tokens[this.index]?.kind === 'or') {
+      this.index++;
+      nodes.push(this.parseAnd());
+    }
+    return either(nodes);
+  }
+
+  private parseAnd(): QueryNode {
+    const nodes = [this.parseSequence()];
+    while (this.tokens[this.index]?.kind === 'and') {
+      this.index++;
+      nodes.push(this.parseSequence());
+    }
+    return all(nodes);
+  }
+
+  private parseSequence(): QueryNode {
+    const start = this.index;
+    const clauses: Clause[] = [];
+    while (this.index < this.tokens.length && !['and', 'or', 'close'].includes(this.tokens[this.index].kind)) {
+      clauses.push(this.parseUnary());
+    }
+    if (clauses.length === 0) {
+      throw this.missingOperand(start);
+    }
+
+    const optional = clauses.filter(clause => clause.optional).flatMap(clause => clause.nodes);
+    const required = clauses.filter(clause => !clause.optional).flatMap(clause => clause.nodes);
+    return all([...(optional.length > 0 ? [either(optional)] : []), ...required]);
+  }
+
+  private parseUnary(): Clause {
+    const token = this.tokens[this.index++];
+
+    switch (token.kind) {
+      case 'not': {
+        if (this.index >= this.tokens.length || ['and', 'or', 'close'].includes(this.tokens[this.index].kind)) {
+          throw syntaxError(`"-" at character ${token.position} needs a term to exclude`);
+        }
+        // -foo-bar excludes memories with both words
+        return { nodes: [{ type: 'not', node: all(this.parseUnary().nodes) }], optional: false };
+      }
+      case 'open': {
+        if (this.tokens[this.index]?.kind === 'close') {
+          throw syntaxError(`empty parentheses at character ${token.position}`);
+        }
+        const group = this.parseOr();
+        if (this.tokens[this.index]?.kind !== 'close') {
+          throw syntaxError(`unclosed "(" at character ${token.position}`);
+        }
+        this.index++;
+        return { nodes: [group], optional: false };
+      }
+      case 'phrase': {
+        const words = wordsOf(token.text);
+        if (words.length === 0) {
+          throw syntaxError(`empty phrase at character ${token.position}`);
+        }
+        return { nodes: [{ type: 'phrase', words }], optional: false };
+      }
+      case 'field':
+        return { nodes: [{ type: 'field', field: token.field, value: token.value }], optional: false };
+      case 'word':
+        return { nodes: this.wordNodes(token.text, token.position), optional: true };
+      default:
+        // parseSequence stops before operators and closing parentheses
+        throw syntaxError(`unexpected token at character ${token.position}`);
+    }
+  }
+
+  // foo-bar is two words, as in a plain search; a trailing * makes the last
+  // one a prefix
+  private wordNodes(text: string, position: number): QueryNode[] {
+    const words = wordsOf(text);
+    const nodes: QueryNode[] = words.map(word => ({ type: 'term', word }));
+    if (text.endsWith('*')) {
+      const prefix = words[words.length - 1];
+      if (prefix.length < MIN_PREFIX_LENGTH) {
+        throw syntaxError(`prefix "${prefix}*" at character ${position} is too short: use at least ${MIN_PREFIX_LENGTH} characters`);
+      }
+      nodes[nodes.length - 1] = { type: 'prefix', prefix };
+    }
+    return nodes;
+  }
+
+  private missingOperand(start: number): Error {
+    const previous = this.tokens[start - 1];
+    const next = this.tokens[this.index];
+    if (previous?.kind === 'and' || previous?.kind === 'or') {
+      return syntaxError(`"${previous.kind.toUpperCase()}" at character ${previous.position} needs a search term after it`);
+    }
+    if (next?.kind === 'and' || next?.kind === 'or') {
+      return syntaxError(`"${next.kind.toUpperCase()}" at character ${next.position} needs a search term before it`);
+    }
+    return syntaxError(`unmatched ")" at character ${next?.position ?? start + 1}`);
+  }
+}
+
+// Parses a read query:
+//   deploy friday        either word (ranked as before)
+//   "exact phrase"       the words in this order
+//   -word, -"phrase"     not containing it
+//   a AND b, a OR b      both, either; group with parentheses
+//   tag:x id:42          carrying tag x; memory 42
+//   after:D before:D     created on or after D; before D (ISO 8601)
+//   deplo*               a word starting with "deplo"
+// Throws with the position of the problem for malformed queries. A query
+// with no words at all parses to an empty OR, which matches nothing.
+export function parseQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  return tokens.length === 0 ? { type: 'or', nodes: [] } : new QueryParser(tokens).parse();
+}
+
+// Rewrites free text (e.g. a memory's content) as a query with no syntax
+// that matches any of its words
+export function plainQuery(text: string): string {
+  return (text.match(WORD_PATTERN) ?? []).map(word => word === 'AND' || word === 'OR' ? word.toLowerCase() : word).join(' ');
+}
+
+// True when the query is only words joined by OR, i.e. a plain search
+export function isPlainQuery(query: QueryNode): boolean {
+  return query.type === 'term' || (query.type === 'or' && query.nodes.every(isPlainQuery));
+}
+
+// Words (and phrase words) the query looks for, and its prefixes; excluded
+// ones are left out since they never add relevance
+export function positiveWords(query: QueryNode): { words: string[]; prefixes: string[] } {
+  const words: string[] = [];
+  const prefixes: string[] = [];
+  const visit = (node: QueryNode) => {
+    switch (node.type) {
+      case 'term':
+        words.push(node.word);
+        break;
+      case 'prefix':
+        prefixes.push(node.prefix);
+        break;
+      case 'phrase':
+        words.push(...node.words);
+        break;
+      case 'and':
+      case 'or':
+        node.nodes.forEach(visit);
+        break;
+    }
+  };
+  visit(query);
+  return { words, prefixes };
+}
+
+// Whether a memory containing none of the query's positive words can still
+// match, e.g. tag:work or -draft; such queries scan instead of using the
+// full-text index
+export function matchesWithoutWords(query: QueryNode): boolean {
+  switch (query.type) {
+    case 'field':
+    case 'not':
+      return true;
+    case 'and':
+      return query.nodes.every(matchesWithoutWords);
+    case 'or':
+      return query.nodes.some(matchesWithoutWords);
+    default:
+      return false;
+  }
+}
+
+// Narrows filters by the tag and date fields every match must satisfy, so
+// the database does that part of the work
+export function scopeFilters(filters: MemoryFilters, query: QueryNode): MemoryFilters {
+  const required = query.type === 'and' ? query.nodes : [query];
+  const scoped: MemoryFilters = { ...filters };
+  for (const node of required) {
+    if (node.type !== 'field') {
+      continue;
+    }
+    if (node.field === 'tag') {
+      scoped.tags = [...(scoped.tags ?? []), node.value];
+    } else if (node.field === 'after' && (!scoped.created_after || node.value > toSqlTimestamp(scoped.created_after))) {
+      scoped.created_after = node.value;
+    } else if (node.field === 'before' && (!scoped.created_before || node.value < toSqlTimestamp(scoped.created_before))) {
+      scoped.created_before = node.value;
+    }
+  }
+  return scoped;
+}
@@ -0,0 +1,148 @@
+import type { Memory, MemoryFilters } from './database.js';
+import type { MemoryStore } from './stores.js';
+import { encodeCursor, decodeCursor } from './pagination.js';
+
+export const MEMORY_URI_PREFIX = 'inked://memory/';
+export const TAG_URI_PREFIX = 'inked://tag/';
+export const NAMESPACE_URI_PREFIX = 'inked://namespace/';
+
+// Memories per resources/list page
+const RESOURCE_PAGE_SIZE = 100;
+
+// Cap on memories pulled into a collection resource or the load prompt
+const COLLECTION_LIMIT = 200;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${MEMORY_URI_PREFIX}{id}`,
+    name: 'Memory',
+    description: 'A single memory by ID',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: `${TAG_URI_PREFIX}{tag}`,
+    name: 'Memories by tag',
+    description: 'Every memory carrying the given tag',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${NAMESPACE_URI_PREFIX}{namespace}`,
+    name: 'Memories by namespace',
+    description: 'Every memory in the given namespace',
+    mimeType: 'text/markdown',
+  },
+];
+
+export const PROMPTS = [
+  {
+    name: 'load-memories',
+    description:
+      'Load saved memories into the conversation, with instructions to use them quietly and save new insights with the write tool',
+    arguments: [
+      {
+        name: 'namespace',
+        description: 'Only load memories from this namespace',
+        required: false,
+      },
+      {
+        name: 'tag',
+        description: 'Only load memories carrying this tag',
+        required: false,
+      },
+    ],
+  },
+];
+
+export function memoryUri(id: number): string {
+  return `${MEMORY_URI_PREFIX}${id}`;
+}
+
+function describe(memory: Memory): string {
+  const details = [`Created ${memory.created_at}`];
+  if (memory.namespace) details.push(`namespace ${memory.namespace}`);
+  if (memory.tags.length > 0) details.push(`tags: ${memory.tags.join(', ')}`);
+  return details.join('; ');
+}
+
+function title(content: string): string {
+  const firstLine = content.trim().split('\n')[0];
+  return firstLine.length > 60 ? `${firstLine.substring(0, 60)}...` : firstLine;
+}
+
+export async function listMemoryResources(store: MemoryStore, cursor?: string) {
+  const offset = cursor ? decodeCursor(cursor) : 0;
+
+  // Fetch one extra row to know whether another page exists
+  const memories = await store.db.listMemories(RESOURCE_PAGE_SIZE + 1, {}, offset);
+  const page = memories.slice(0, RESOURCE_PAGE_SIZE);
+
+  return {
+    resources: page.map(memory => ({
+      uri: memoryUri(memory.id),
+      name: title(memory.content),
+      description: describe(memory),
+      mimeType: 'text/plain',
+    })),
+    nextCursor: memories.length > RESOURCE_PAGE_SIZE ? encodeCursor(offset + RESOURCE_PAGE_SIZE) : undefined,
+  };
+}
+
+function formatCollection(heading: string, memories: Memory[]): string {
+  if (memories.length === 0) {
+    return `# ${heading}\n\nNo memories.\n`;
+  }
+  const sections = memories.map(memory => `## Memory ${memory.id}\n\n_${describe(memory)}_\n\n${memory.content.trim()}\n`);
+  return `# ${heading}\n\n${sections.join('\n')}`;
+}
+
+// Resolves to undefined for URIs this server does not own or memories that do not exist
+export async function readResource(store: MemoryStore, uri: string) {
+  if (uri.startsWith(MEMORY_URI_PREFIX)) {
+    const id = Number(uri.slice(MEMORY_URI_PREFIX.length));
+    const memory = Number.isInteger(id) ? await store.db.getMemory(id) : undefined;
+    return memory && { contents: [{ uri, mimeType: 'text/plain', text: memory.content }] };
+  }
+
+  let filters: MemoryFilters;
+  let heading: string;
+  if (uri.startsWith(TAG_URI_PREFIX)) {
+    const tag = decodeURIComponent(uri.slice(TAG_URI_PREFIX.length));
+    filters = { tags: [tag] };
+    heading = `Memories tagged "${tag}"`;
+  } else if (uri.startsWith(NAMESPACE_URI_PREFIX)) {
+    const namespace = decodeURIComponent(uri.slice(NAMESPACE_URI_PREFIX.length));
+    filters = { namespace };
+    heading = `Memories in namespace "${namespace}"`;
+  } else {
+    return undefined;
+  }
+
+  const memories = await store.db.listMemories(COLLECTION_LIMIT, filters);
+  return { contents: [{ uri, mimeType: 'text/markdown', text: formatCollection(heading, memories) }] };
+}
+
+// The README's auto-memory instruction, packaged as a prompt with the memories inlined
+export async function getLoadMemoriesPrompt(store: MemoryStore, args: Record<string, string> = {}) {
+  const filters: MemoryFilters = {
+    namespace: args.namespace || undefined,
+    tags: args.tag ? [args.tag] : undefined,
+  };
+  const memories = await store.db.listMemories(COLLECTION_LIMIT, filters);
+
+  const memoriesText = memories.length > 0
+    ? memories.map(memory => `- (ID ${memory.id}) ${memory.content.trim()}`).join('\n')
+    : '(No memories saved yet.)';
+
+  return {
+    description: `Saved memories (${memories.length})`,
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: `Here are my saved memories from earlier conversations:\n\n${memoriesText}\n\nOnly mention these memories when they are directly relevant to our conversation. Use the inked write tool to save important preferences, facts, or insights that should be remembered for future conversations.`,
+        },
+      },
+    ],
+  };
+}
@@ -1,127 +1,306 @@
-export interface SearchResult {
-  id: number;
-  content: string;
-  created_at: string;
+import { DEFAULT_IMPORTANCE, toSqlTimestamp } from './database.js';
+import type { DatabaseManager, Memory, MemoryFilters } from './database.js';
+import { DEFAULT_LANGUAGE, LANGUAGES, stem } from './stemmers.js';
+import type { Language } from './stemmers.js';
+import { DEFAULT_STOP_WORDS, DEFAULT_SYNONYM_GROUPS } from './vocabulary.js';
+import { parseQuery, plainQuery, positiveWords, matchesWithoutWords, scopeFilters, wordsOf } from './query.js';
+import type { QueryField, QueryNode } from './query.js';
+
+export interface SearchResult extends Memory {
   relevanceScore: number;
   matchType: string;
+  // How the text matcher arrived at relevanceScore, when it scored the result
+  explanation?: ScoreBreakdown;
 }
 
+// Components of a text relevance score:
+// total = (terms * length + multiTerm) * importance * recency * usage
+export interface ScoreBreakdown {
+  terms: number;
+  length: number;
+  multiTerm: number;
+  importance: number;
+  recency: number;
+  usage: number;
+  total: number;
+}
+
+// Optional ranking signals beyond text overlap; a weight of 0 turns one off
+export interface ScoringWeights {
+  // Extra weight for recently created or edited memories
+  recency: number;
+  // Extra weight for memories that reads return often and recently
+  usage: number;
+  // Days for the recency and usage boosts to halve
+  halfLifeDays: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = { recency: 0, usage: 0, halfLifeDays: 30 };
+
 export interface SemanticMatcher {
-  searchMemories(query: string, limit?: number): Promise<SearchResult[]>;
+  // Filters narrow the candidate set before any scoring happens. The query
+  // uses the syntax of parseQuery; "ALL" lists every memory.
+  searchMemories(query: string, limit?: number, filters?: MemoryFilters): Promise<SearchResult[]>;
+  // Matchers keeping their own index (e.g. vectors) update it after a write
+  indexMemory?(id: number, content: string): Promise<void>;
 }
 
 class FastSemanticSearch implements SemanticMatcher {
-  // Common word variations and synonyms for better matching
-  private readonly synonyms: Map<string, string[]> = new Map([
-    ['preferences', ['settings', 'config', 'options', 'choices']],
-    ['settings', ['preferences', 'config', 'options', 'configuration']],
-    ['project', ['work', 'task', 'assignment', 'job']],
-    ['user', ['person', 'client', 'individual']],
-    ['likes', ['enjoys', 'prefers', 'loves', 'favors']],
-    ['dislikes', ['hates', 'avoids', 'rejects', 'opposes']],
-    ['wants', ['needs', 'requires', 'desires', 'seeks']],
-    ['important', ['crucial', 'vital', 'essential', 'critical']],
-    ['problem', ['issue', 'bug', 'error', 'trouble']],
-    ['solution', ['fix', 'answer', 'resolution', 'remedy']],
-    ['fast', ['quick', 'rapid', 'speedy', 'swift']],
-    ['slow', ['sluggish', 'delayed', 'gradual']],
-    ['good', ['great', 'excellent', 'positive', 'beneficial']],
-    ['bad', ['poor', 'negative', 'terrible', 'awful']],
-  ]);
-
-  // Stop words to filter out for better matching
-  private readonly stopWords = new Set([
-    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
-    'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
-    'to', 'was', 'will', 'with', 'the', 'this', 'but', 'they', 'have',
-    'had', 'what', 'said', 'each', 'which', 'do', 'how', 'their', 'if',
-    'up', 'out', 'many', 'then', 'them', 'these', 'so', 'some', 'her',
-    'would', 'make', 'like', 'into', 'him', 'time', 'two', 'more',
-    'go', 'no', 'way', 'could', 'my', 'than', 'first', 'been', 'call',
-    'who', 'oil', 'sit', 'now', 'find', 'down', 'day', 'did', 'get',
-    'may', 'new', 'try', 'came', 'show', 'every', 'should', 'thought'
-  ]);
-
-  constructor(private db: any) {}
-
-  async searchMemories(query: string, limit: number = 3): Promise<SearchResult[]> {
+  // Stop words and stemmed synonym groups per language, from the store's
+  // vocabulary tables; the built-in lists stand in until they load
+  private analysis = buildAnalysis(DEFAULT_SYNONYM_GROUPS, DEFAULT_STOP_WORDS);
+  private analysisLoad?: Promise<void>;
+  private analysisLoaded = false;
+
+  // How many BM25 candidates get the full relevance scoring pass, at least;
+  // deeper pages pull as many as they reach
+  private readonly candidateLimit = 200;
+
+  // Memories checked by queries that can match without any of their words
+  private readonly scanLimit = 10000;
+
+  // Prefix length used to pull in fuzzy-match candidates
+  private readonly fuzzyPrefixLength = 3;
+
+  // Relevance change per importance step
+  private readonly importanceWeight = 0.1;
+
+  // Search hits re-checked for similarity when looking for duplicates
+  private readonly duplicateCandidateLimit = 20;
+
+  // Longer texts skip the quadratic edit-distance comparison
+  private readonly maxEditDistanceLength = 500;
+
+  constructor(
+    private db: DatabaseManager,
+    private scoring: ScoringWeights = DEFAULT_SCORING_WEIGHTS,
+    private language: Language = DEFAULT_LANGUAGE
+  ) {
+    // Reload on the next search after the vocabulary tool edits it
+    db.on('vocabulary', () => {
+      this.analysisLoad = undefined;
+      this.analysisLoaded = false;
+    });
+  }
+
+  async searchMemories(query: string, limit: number = 3, filters: MemoryFilters = {}): Promise<SearchResult[]> {
     // Handle "ALL" special case
     if (query.toUpperCase() === 'ALL') {
-      return this.getAllMemories(limit);
+      return this.getAllMemories(limit, filters);
     }
 
-    // Get all memories from database
-    const allMemories = await this.getAllMemories(50); // Get more for better ranking
-    
-    if (allMemories.length === 0) {
+    return this.searchQuery(parseQuery(query), limit, filters);
+  }
+
+  // Keeps the memories whose phrases, exclusions, prefixes and fields match
+  // a parsed query. Plain words are left for the caller to match by meaning.
+  async filterByQuery<T extends Memory>(query: QueryNode, memories: T[]): Promise<T[]> {
+    await this.loadAnalysis();
+    return memories.filter(memory => this.matchesQuery(query, memory, true));
+  }
+
+  // Live memories that look like near-duplicates of the given text, most
+  // similar first. relevanceScore holds the 0-1 similarity.
+  async findSimilar(content: string, threshold: number, filters: MemoryFilters = {}, limit: number = 5): Promise<SearchResult[]> {
+    const candidates = await this.searchQuery(parseQuery(plainQuery(content)), this.duplicateCandidateLimit, filters);
+
+    return candidates
+      .map(candidate => ({
+        ...candidate,
+        relevanceScore: Math.round(this.similarity(content, candidate.content, candidate.language ?? this.language) * 100) / 100,
+        matchType: 'duplicate'
+      }))
+      .filter(result => result.relevanceScore >= threshold)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, limit);
+  }
+
+  // Symmetric 0-1 similarity. Each text is scored as a query against the
+  // other relative to a perfect self-match, which catches rewordings; the
+  // character-level edit distance catches typos and small edits, but only
+  // when every word of each text is in the other or a typo of one there, so
+  // short facts that differ in a word ("Monday" vs "Friday") stay apart.
+  similarity(a: string, b: string, language: Language = this.language): number {
+    const termsA = this.preprocessText(a, language);
+    const termsB = this.preprocessText(b, language);
+
+    let termSimilarity = 0;
+    if (termsA.length > 0 && termsB.length > 0) {
+      const aInB = this.calculateRelevanceScore(termsA, b, language).total / this.calculateRelevanceScore(termsA, a, language).total;
+      const bInA = this.calculateRelevanceScore(termsB, a, language).total / this.calculateRelevanceScore(termsB, b, language).total;
+      termSimilarity = Math.min(aInB, bInA, 1);
+    }
+
+    const normalizedA = a.toLowerCase().replace(/\s+/g, ' ').trim();
+    const normalizedB = b.toLowerCase().replace(/\s+/g, ' ').trim();
+    let editSimilarity = 0;
+    if (normalizedA === normalizedB) {
+      editSimilarity = 1;
+    } else if (Math.max(normalizedA.length, normalizedB.length) <= this.maxEditDistanceLength && wordsAgree(a, b)) {
+      const distance = levenshteinDistance(normalizedA, normalizedB);
+      editSimilarity = 1 - distance / Math.max(normalizedA.length, normalizedB.length);
+    }
+
+    return Math.max(termSimilarity, editSimilarity);
+  }
+
+  private async searchQuery(query: QueryNode, limit: number, filters: MemoryFilters): Promise<SearchResult[]> {
+    await this.loadAnalysis();
+
+    // Analyze the query once per language since each memory is scored with
+    // its own language's pipeline. Prefixes are scored as partial words.
+    const { words, prefixes } = positiveWords(query);
+    const processedQueries = new Map(LANGUAGES.map(language => [
+      language,
+      [...words.flatMap(word => this.preprocessText(word, language)), ...prefixes]
+    ]));
+    const scopedFilters = scopeFilters(filters, query);
+
+    // Queries like tag:work or -draft check every memory; the rest pull
+    // BM25-ranked candidates for their words
+    let candidates: Memory[];
+    if (matchesWithoutWords(query)) {
+      candidates = await this.db.listMemories(this.scanLimit, scopedFilters);
+    } else if (Array.from(processedQueries.values()).every(terms => terms.length === 0)) {
       return [];
+    } else {
+      const matches = await this.db.searchFullText(
+        this.buildMatchQuery(processedQueries),
+        Math.max(this.candidateLimit, limit),
+        scopedFilters
+      );
+      candidates = matches.map(({ rank, ...memory }) => memory);
     }
 
-    // Process query and calculate relevance scores
-    const processedQuery = this.preprocessText(query);
-    const scoredResults = allMemories.map(memory => ({
-      ...memory,
-      relevanceScore: this.calculateRelevanceScore(processedQuery, memory.content),
-      matchType: this.getMatchType(processedQuery, memory.content)
-    }));
+    // Re-score matching candidates with synonym, fuzzy and context matching.
+    // Candidates arrive in BM25 (or newest-first) order, so a stable sort
+    // keeps it as the tie-breaker.
+    const scoredResults: SearchResult[] = candidates
+      .filter(memory => this.matchesQuery(query, memory, false))
+      .map(memory => {
+        const language = memory.language ?? this.language;
+        const processedQuery = processedQueries.get(language)!;
+        if (processedQuery.length === 0) {
+          // Nothing to rank by, e.g. tag:work on its own
+          return { ...memory, relevanceScore: 1.0, matchType: 'filter' };
+        }
+        const explanation = this.calculateRelevanceScore(processedQuery, memory.content, language, memory);
+        return {
+          ...memory,
+          relevanceScore: explanation.total,
+          matchType: this.getMatchType(processedQuery, memory.content, language),
+          explanation
+        };
+      });
 
-    // Sort by relevance score and return top results
     return scoredResults
-      .filter(result => result.relevanceScore > 0)
       .sort((a, b) => b.relevanceScore - a.relevanceScore)
       .slice(0, limit);
   }
 
-  private async getAllMemories(limit: number): Promise<SearchResult[]> {
-    return new Promise((resolve, reject) => {
-      const sql = `
-        SELECT id, content, created_at
-        FROM memories
-        ORDER BY created_at DESC
-        LIMIT ?
-      `;
-
-      this.db.db.all(sql, [limit], (err: any, rows: any[]) => {
-        if (err) {
-          reject(err);
-          return;
+  // Evaluates a parsed query against a memory. A plain word matches wherever
+  // it would add relevance (including synonyms and typos); an excluded word
+  // only where the word itself, or another form of it, appears. Stop words
+  // are ignored. With wordsByMeaning, plain words are ignored too.
+  private matchesQuery(query: QueryNode, memory: Memory, wordsByMeaning: boolean): boolean {
+    const language = memory.language ?? this.language;
+    const contentTerms = this.preprocessText(memory.content, language);
+    const contentWords = wordsOf(memory.content);
+
+    const evaluate = (node: QueryNode, excluded: boolean): boolean | null => {
+      switch (node.type) {
+        case 'term': {
+          const stems = this.preprocessText(node.word, language);
+          if (stems.length === 0 || (wordsByMeaning && !excluded)) {
+            return null;
+          }
+          return excluded
+            ? stems.every(stem => contentTerms.includes(stem))
+            : this.calculateRelevanceScore(stems, memory.content, language).terms > 0;
         }
+        case 'prefix':
+          return contentWords.some(word => word.startsWith(node.prefix));
+        case 'phrase':
+          return contentWords.some((_, start) => node.words.every((word, offset) => contentWords[start + offset] === word));
+        case 'field':
+          return matchesField(node.field, node.value, memory);
+        case 'not': {
+          const result = evaluate(node.node, !excluded);
+          return result === null ? null : !result;
+        }
+        case 'and':
+        case 'or': {
+          // Ignored parts drop out; a group of nothing but ignored parts is ignored
+          const results = node.nodes.map(child => evaluate(child, excluded)).filter(result => result !== null);
+          if (results.length === 0) {
+            return null;
+          }
+          return node.type === 'and' ? results.every(Boolean) : results.some(Boolean);
+        }
+      }
+    };
 
-        const memories = rows.map(row => ({
-          id: row.id,
-          content: row.content,
-          created_at: row.created_at,
-          relevanceScore: 1.0,
-          matchType: 'all'
-        }));
-
-        resolve(memories);
-      });
-    });
+    return evaluate(query, false) ?? wordsByMeaning;
   }
 
-  private preprocessText(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ') // Remove punctuation
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !this.stopWords.has(word))
-      .map(word => this.stemWord(word));
-  }
+  // Builds an FTS5 OR-query covering each language's terms, their synonyms
+  // and a short prefix so typo'd terms still reach the fuzzy matcher
+  private buildMatchQuery(processedQueries: Map<Language, string[]>): string {
+    const tokens = new Set<string>();
+
+    for (const [language, queryTerms] of processedQueries) {
+      for (const queryTerm of queryTerms) {
+        tokens.add(queryTerm);
+        tokens.add(queryTerm.slice(0, this.fuzzyPrefixLength));
 
-  private stemWord(word: string): string {
-    // Simple stemming - remove common suffixes
-    const suffixes = ['ing', 'ed', 'er', 'est', 'ly', 'tion', 'ness', 'ment'];
-    for (const suffix of suffixes) {
-      if (word.endsWith(suffix) && word.length > suffix.length + 2) {
-        return word.slice(0, -suffix.length);
+        for (const group of this.analysis.get(language)!.synonymGroups) {
+          if (group.stems.includes(queryTerm)) {
+            group.terms.forEach(term => tokens.add(term));
+          }
+        }
       }
     }
-    return word;
+
+    return Array.from(tokens)
+      .map(token => `"${token.replace(/"/g, '""')}"*`)
+      .join(' OR ');
+  }
+
+  private loadAnalysis(): Promise<void> {
+    // A load started outside a batch queues behind it, so a search inside
+    // the batch reads the vocabulary itself instead of waiting for that load
+    if (this.db.inTransaction && !this.analysisLoaded) {
+      return this.readAnalysis();
+    }
+    this.analysisLoad ??= this.readAnalysis();
+    return this.analysisLoad;
+  }
+
+  private async readAnalysis(): Promise<void> {
+    const vocabulary = await this.db.getVocabulary();
+    this.analysis = buildAnalysis(
+      vocabulary.synonymGroups.map(group => group.terms),
+      vocabulary.stopWords
+    );
+    this.analysisLoaded = true;
+  }
+
+  private async getAllMemories(limit: number, filters: MemoryFilters): Promise<SearchResult[]> {
+    const memories = await this.db.listMemories(limit, filters);
+    return memories.map(memory => ({
+      ...memory,
+      relevanceScore: 1.0,
+      matchType: 'all'
+    }));
   }
 
-  private calculateRelevanceScore(queryTerms: string[], content: string): number {
-    const contentTerms = this.preprocessText(content);
+  private preprocessText(text: string, language: Language): string[] {
+    return analyze(text, language, this.analysis.get(language)!.stopWords);
+  }
+
+  // Without a memory, only the text itself is scored (no importance or usage signals)
+  private calculateRelevanceScore(queryTerms: string[], content: string, language: Language, memory?: Memory): ScoreBreakdown {
+    const contentTerms = this.preprocessText(content, language);
     const contentText = content.toLowerCase();
     let score = 0;
 
@@ -142,7 +321,7 @@ class FastSemanticSearch implements SemanticMatcher {
       }
 
       // Synonym match
-      const synonymScore = this.getSynonymScore(queryTerm, contentTerms);
+      const synonymScore = this.getSynonymScore(queryTerm, contentTerms, language);
       if (synonymScore > 0) {
         score += synonymScore;
         continue;
@@ -164,7 +343,7 @@ class FastSemanticSearch implements SemanticMatcher {
 
     // Boost score for shorter content (more focused)
     const lengthBoost = Math.max(0, 1 - (content.length / 1000));
-    score *= (1 + lengthBoost * 0.2);
+    const lengthMultiplier = 1 + lengthBoost * 0.2;
 
     // Boost for multiple term matches
     const matchedTerms = queryTerms.filter(term => 
@@ -172,20 +351,57 @@ class FastSemanticSearch implements SemanticMatcher {
       contentTerms.some(cTerm => cTerm.includes(term))
     );
     const multiTermBoost = matchedTerms.length > 1 ? matchedTerms.length * 0.5 : 0;
-    score += multiTermBoost;
 
-    return Math.round(score * 100) / 100;
+    // Importance scales the score by 10% per step away from the default
+    const importance = 1 + ((memory?.importance ?? DEFAULT_IMPORTANCE) - DEFAULT_IMPORTANCE) * this.importanceWeight;
+    const recency = memory ? this.getRecencyBoost(memory) : 1;
+    const usage = memory ? this.getUsageBoost(memory) : 1;
+
+    const total = (score * lengthMultiplier + multiTermBoost) * importance * recency * usage;
+
+    return {
+      terms: Math.round(score * 100) / 100,
+      length: Math.round(lengthMultiplier * 100) / 100,
+      multiTerm: multiTermBoost,
+      importance: Math.round(importance * 100) / 100,
+      recency: Math.round(recency * 100) / 100,
+      usage: Math.round(usage * 100) / 100,
+      total: Math.round(total * 100) / 100
+    };
   }
 
-  private getSynonymScore(queryTerm: string, contentTerms: string[]): number {
-    for (const [key, synonyms] of this.synonyms) {
-      if (queryTerm === key || synonyms.includes(queryTerm)) {
-        const relatedTerms = [key, ...synonyms];
-        for (const contentTerm of contentTerms) {
-          if (relatedTerms.includes(contentTerm)) {
-            return 3; // Lower than exact match but still valuable
-          }
-        }
+  // 1 + weight for a memory written just now, halving toward 1 every half-life
+  private getRecencyBoost(memory: Memory): number {
+    if (this.scoring.recency <= 0) {
+      return 1;
+    }
+    return 1 + this.scoring.recency * this.decay(memory.updated_at ?? memory.created_at);
+  }
+
+  // Grows with the log of the read count (saturating at 100 reads) and decays
+  // with the time since the last read
+  private getUsageBoost(memory: Memory): number {
+    if (this.scoring.usage <= 0 || memory.access_count === 0 || !memory.last_accessed_at) {
+      return 1;
+    }
+    const frequency = Math.min(1, Math.log10(1 + memory.access_count) / 2);
+    return 1 + this.scoring.usage * frequency * this.decay(memory.last_accessed_at);
+  }
+
+  // 1 now, 0.5 one half-life ago, 0.25 two half-lives ago...
+  private decay(timestamp: string): number {
+    const time = parseTimestamp(timestamp);
+    if (isNaN(time)) {
+      return 0;
+    }
+    const ageDays = Math.max(0, (Date.now() - time) / (24 * 60 * 60 * 1000));
+    return Math.pow(0.5, ageDays / this.scoring.halfLifeDays);
+  }
+
+  private getSynonymScore(queryTerm: string, contentTerms: string[], language: Language): number {
+    for (const { stems } of this.analysis.get(language)!.synonymGroups) {
+      if (stems.includes(queryTerm) && contentTerms.some(contentTerm => stems.includes(contentTerm))) {
+        return 3; // Lower than exact match but still valuable
       }
     }
     return 0;
@@ -194,7 +410,7 @@ class FastSemanticSearch implements SemanticMatcher {
   private getFuzzyScore(queryTerm: string, contentTerms: string[]): number {
     let bestScore = 0;
     for (const contentTerm of contentTerms) {
-      const distance = this.levenshteinDistance(queryTerm, contentTerm);
+      const distance = levenshteinDistance(queryTerm, contentTerm);
       const maxLen = Math.max(queryTerm.length, contentTerm.length);
       const similarity = 1 - (distance / maxLen);
       
@@ -225,28 +441,8 @@ class FastSemanticSearch implements SemanticMatcher {
     return 0;
   }
 
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,     // deletion
-          matrix[j - 1][i] + 1,     // insertion
-          matrix[j - 1][i - 1] + indicator // substitution
-        );
-      }
-    }
-
-    return matrix[str2.length][str1.length];
-  }
-
-  private getMatchType(queryTerms: string[], content: string): string {
-    const contentTerms = this.preprocessText(content);
+  private getMatchType(queryTerms: string[], content: string, language: Language): string {
+    const contentTerms = this.preprocessText(content, language);
     
     // Check for exact matches
     const exactMatches = queryTerms.filter(term => contentTerms.includes(term));
@@ -258,7 +454,7 @@ class FastSemanticSearch implements SemanticMatcher {
     
     // Check for synonym matches
     for (const queryTerm of queryTerms) {
-      if (this.getSynonymScore(queryTerm, contentTerms) > 0) {
+      if (this.getSynonymScore(queryTerm, contentTerms, language) > 0) {
         return 'semantic';
       }
     }
@@ -274,4 +470,104 @@ class FastSemanticSearch implements SemanticMatcher {
   }
 }
 
+// A language's stop words and its synonym groups, each with the stemmed
+// terms used for scoring alongside the raw terms sent to the full-text index
+interface LanguageAnalysis {
+  stopWords: Set<string>;
+  synonymGroups: { terms: string[]; stems: string[] }[];
+}
+
+function buildAnalysis(
+  synonymGroups: string[][],
+  stopWords: Partial<Record<Language, string[]>>
+): Map<Language, LanguageAnalysis> {
+  return new Map(LANGUAGES.map(language => {
+    const languageStopWords = new Set(stopWords[language] ?? []);
+    return [language, {
+      stopWords: languageStopWords,
+      synonymGroups: synonymGroups.map(terms => ({
+        terms,
+        stems: terms.flatMap(term => analyze(term, language, languageStopWords))
+      }))
+    }];
+  }));
+}
+
+// Lowercases, splits on anything but letters and digits, drops short and
+// stop words, then stems
+function analyze(text: string, language: Language, stopWords: Set<string>): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_\s]/gu, ' ') // Remove punctuation
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !stopWords.has(word))
+    .map(word => stem(word, language));
+}
+
+function matchesField(field: QueryField, value: string, memory: Memory): boolean {
+  switch (field) {
+    case 'tag':
+      return memory.tags.includes(value);
+    case 'id':
+      return memory.id === Number(value);
+    case 'after':
+      return toSqlTimestamp(memory.created_at) >= value;
+    case 'before':
+      return toSqlTimestamp(memory.created_at) < value;
+  }
+}
+
+// SQLite's CURRENT_TIMESTAMP values are UTC without a zone marker
+export function parseTimestamp(timestamp: string): number {
+  const hasZone = /(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(timestamp);
+  return Date.parse(hasZone ? timestamp : `${timestamp.replace(' ', 'T')}Z`);
+}
+
+// True when each word of either text appears in the other, exactly or mistyped
+function wordsAgree(a: string, b: string): boolean {
+  const wordsA = wordsOf(a);
+  const wordsB = wordsOf(b);
+  const covered = (words: string[], others: string[]) =>
+    words.every(word => others.some(other => other === word || isTypo(word, other)));
+  return covered(wordsA, wordsB) && covered(wordsB, wordsA);
+}
+
+// Up to one slip per four letters, where a slip is a changed, added or
+// dropped letter, or two neighbouring letters swapped
+function isTypo(word: string, other: string): boolean {
+  const allowed = Math.floor(Math.max(word.length, other.length) / 4);
+  if (allowed === 0) {
+    return false;
+  }
+  if (levenshteinDistance(word, other) <= allowed) {
+    return true;
+  }
+  const differences = [...word].flatMap((letter, index) => letter === other[index] ? [] : [index]);
+  return word.length === other.length
+    && differences.length === 2
+    && differences[1] === differences[0] + 1
+    && word[differences[0]] === other[differences[1]]
+    && word[differences[1]] === other[differences[0]];
+}
+
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,     // deletion
+        matrix[j - 1][i] + 1,     // insertion
+        matrix[j - 1][i - 1] + indicator // substitution
+      );
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
+
 export { FastSemanticSearch };
\ No newline at end of file
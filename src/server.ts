@@ -0,0 +1,953 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { randomBytes } from "crypto";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { MemoryChange } from "./database.js";
+import type { InkedConfig } from "./config.js";
+import { StoreRegistry } from "./stores.js";
+import {
+  ReadToolSchema,
+  WriteToolSchema,
+  ExportToolSchema,
+  ImportToolSchema,
+  DuplicatesToolSchema,
+  VocabularyToolSchema,
+  DigestToolSchema,
+  AuditToolSchema,
+  handleReadTool,
+  handleWriteTool,
+  handleExportTool,
+  handleImportTool,
+  handleDuplicatesTool,
+  handleVocabularyTool,
+  handleDigestTool,
+  handleAuditTool,
+} from "./tools.js";
+import { runAs } from "./audit.js";
+import { startHttpServer, HttpServerHandle, MCP_PATH, SSE_PATH } from "./http.js";
+import {
+  RESOURCE_TEMPLATES,
+  PROMPTS,
+  MEMORY_URI_PREFIX,
+  memoryUri,
+  listMemoryResources,
+  readResource,
+  getLoadMemoriesPrompt,
+} from "./resources.js";
+
+// Shared by every tool so one server can serve several isolated stores
+const storeProperty = {
+  type: "string",
+  description:
+    'Optional: Named memory store to use (e.g. "work"). Defaults to the store the server was started with.',
+};
+
+// One write operation; also the item schema of a batch's operations
+const writeOperationProperties = {
+  content: {
+    type: "string",
+    description:
+      "Memory content to add (for NEW), replacement text (for UPDATE) or search query to find memory to delete (for DELETE; ignored with confirm or UNDELETE)",
+  },
+  sTool: {
+    type: "string",
+    enum: ["NEW", "UPDATE", "DELETE", "UNDELETE"],
+    description:
+      'Sub-tool: "NEW" to add memory, "UPDATE" to edit memory in place, "DELETE" to move memory to the trash, "UNDELETE" to restore it (without an id, lists the trash)',
+  },
+  id: {
+    type: "number",
+    description:
+      'Optional: Specific memory ID to update, delete or restore (used with sTool="UPDATE", "DELETE" or "UNDELETE")',
+  },
+  confirm: {
+    type: "string",
+    description:
+      'Optional: Confirmation token returned by a DELETE-by-query preview. Deletes the best match, or the candidate given by id',
+  },
+  query: {
+    type: "string",
+    description:
+      'Optional: Search query to find the memory to update when no ID is given (sTool="UPDATE"; defaults to the new content)',
+  },
+  on_duplicate: {
+    type: "string",
+    enum: ["reject", "merge", "flag", "allow"],
+    description:
+      'Optional: What sTool="NEW" does when the content closely matches an existing memory: "reject" it, "merge" it into that memory, "flag" it (save with a warning) or "allow" it. Defaults to the server setting',
+  },
+  importance: {
+    type: "number",
+    description:
+      'Optional: 1 (trivia) to 5 (critical), default 3. More important memories rank higher in search (sTool="NEW" or "UPDATE")',
+    minimum: 1,
+    maximum: 5,
+  },
+  pinned: {
+    type: "boolean",
+    description:
+      'Optional: Pinned memories always come first when reading "ALL" (sTool="NEW" or "UPDATE"; false unpins)',
+  },
+  expires_at: {
+    type: "string",
+    description:
+      'Optional: ISO 8601 time after which the memory is forgotten, or "never" to clear an expiry (sTool="NEW" or "UPDATE")',
+  },
+  language: {
+    type: "string",
+    enum: ["en", "de"],
+    description:
+      'Optional: Language of the memory, choosing the stop words and stemmer used to search it. Defaults to the server setting (sTool="NEW" or "UPDATE")',
+  },
+  ttl: {
+    type: "string",
+    description:
+      'Optional: Lifetime from now instead of expires_at, e.g. "30m", "12h", "7d" or "2w". Use for temporary context such as "working on release 3.2 this week"',
+  },
+  links: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "ID of the memory to link to" },
+        relation: {
+          type: "string",
+          enum: ["relates_to", "supersedes", "contradicts", "part_of"],
+        },
+      },
+      required: ["id", "relation"],
+    },
+    description:
+      'Optional: Links from this memory to others (sTool="NEW" or "UPDATE"). "supersedes" hides the older memory from search',
+  },
+  unlink: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "ID of the linked memory" },
+        relation: {
+          type: "string",
+          enum: ["relates_to", "supersedes", "contradicts", "part_of"],
+          description: "Optional: Only remove this relation (default: all links to the memory)",
+        },
+      },
+      required: ["id"],
+    },
+    description: 'Optional: Links from this memory to remove (sTool="NEW" or "UPDATE")',
+  },
+  tags: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      'Optional: Tags to attach to the memory, e.g. ["work", "preferences"] (only used with sTool="NEW")',
+  },
+  namespace: {
+    type: "string",
+    description:
+      'Optional: Namespace to file the memory under, e.g. "project-x" or "people" (only used with sTool="NEW")',
+  },
+};
+
+// read and write always return structuredContent; format picks the text block
+const formatProperty = {
+  type: "string",
+  enum: ["text", "json", "compact"],
+  description:
+    'Optional: "text" (default) for readable output, "json" for the structured result as JSON text, or "compact" for one line per memory',
+  default: "text",
+};
+
+const nullableString = { type: ["string", "null"] };
+
+const linkRelation = {
+  type: "string",
+  enum: ["relates_to", "supersedes", "contradicts", "part_of"],
+};
+
+const linkDirection = { type: "string", enum: ["outgoing", "incoming"] };
+
+const readResultProperties = {
+  results: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        content: { type: "string" },
+        created_at: { type: "string" },
+        relevanceScore: { type: "number" },
+        matchType: { type: "string" },
+        metadata: {
+          type: "object",
+          properties: {
+            updated_at: nullableString,
+            namespace: nullableString,
+            tags: { type: "array", items: { type: "string" } },
+            importance: { type: "number" },
+            pinned: { type: "boolean" },
+            expires_at: nullableString,
+            language: nullableString,
+            access_count: { type: "number" },
+            last_accessed_at: nullableString,
+            links: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { id: { type: "number" }, relation: linkRelation, direction: linkDirection },
+                required: ["id", "relation", "direction"],
+              },
+            },
+            explanation: {
+              type: ["object", "null"],
+              description: "With explain: the components of the text relevance score",
+            },
+            revisions: {
+              type: "array",
+              description: "With history: earlier versions, newest first",
+              items: {
+                type: "object",
+                properties: { content: { type: "string" }, revised_at: { type: "string" } },
+                required: ["content", "revised_at"],
+              },
+            },
+          },
+          required: ["tags", "importance", "pinned", "links"],
+        },
+      },
+      required: ["id", "content", "created_at", "relevanceScore", "matchType", "metadata"],
+    },
+  },
+  linked: {
+    type: "array",
+    description: "With expand: memories linked to the results",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        content: { type: "string" },
+        created_at: { type: "string" },
+        hop: { type: "number" },
+        via: { type: "number", description: "ID of the memory the link was followed from" },
+        relation: linkRelation,
+        direction: linkDirection,
+      },
+      required: ["id", "content", "created_at", "hop", "via", "relation", "direction"],
+    },
+  },
+  next_cursor: {
+    type: ["string", "null"],
+    description: "Cursor for the next page, or null on the last page",
+  },
+  sorted_limit: {
+    type: "number",
+    description: "Present when only this many best matches were sorted by date; later matches are not paged to",
+  },
+};
+
+// A single search, or with searches one entry per query
+const readOutputSchema = {
+  type: "object" as const,
+  properties: {
+    ...readResultProperties,
+    queries: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          search: { type: "string" },
+          error: { type: ["string", "null"], description: "Why this query failed; null when it succeeded" },
+          ...readResultProperties,
+        },
+        required: ["search", "error", "results", "linked", "next_cursor"],
+      },
+    },
+  },
+  oneOf: [{ required: ["results", "linked", "next_cursor"] }, { required: ["queries"] }],
+};
+
+const writeResultProperties = {
+  action: {
+    type: "string",
+    enum: ["created", "merged", "updated", "deleted", "restored", "confirm_delete", "list_trash"],
+  },
+  id: {
+    type: ["number", "null"],
+    description: "Memory written, deleted or restored; null for previews and trash listings",
+  },
+  duplicate: {
+    type: "object",
+    description: "Near-duplicate a NEW was merged into or saved alongside",
+    properties: { id: { type: "number" }, similarity: { type: "number" } },
+    required: ["id", "similarity"],
+  },
+  confirm: { type: "string", description: "Token to pass as confirm to delete a candidate" },
+  candidates: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: { id: { type: "number" }, content: { type: "string" }, relevanceScore: { type: "number" } },
+      required: ["id", "content", "relevanceScore"],
+    },
+  },
+  trash: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: { id: { type: "number" }, content: { type: "string" }, deleted_at: { type: "string" } },
+      required: ["id", "content", "deleted_at"],
+    },
+  },
+};
+
+// A single operation, or with operations the outcome of each
+const writeOutputSchema = {
+  type: "object" as const,
+  properties: {
+    ...writeResultProperties,
+    committed: { type: "boolean", description: "Whether the batch was saved; false means nothing was" },
+    operations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          sTool: { type: "string" },
+          status: { type: "string", enum: ["applied", "failed", "rolled_back", "not_run"] },
+          message: { type: "string" },
+          result: {
+            type: ["object", "null"],
+            properties: writeResultProperties,
+            required: ["action", "id"],
+          },
+        },
+        required: ["sTool", "status", "message", "result"],
+      },
+    },
+  },
+  oneOf: [{ required: ["action", "id"] }, { required: ["committed", "operations"] }],
+};
+
+// How often expired trash is purged while the server runs
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// How often memories past their expiry are deleted; reads skip them already
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// One client connection: its own MCP protocol state and resource
+// subscriptions, over the stores every session shares
+class InkedSession {
+  readonly server: Server;
+  // Resource URIs the client asked to be notified about
+  private subscriptions = new Set<string>();
+
+  constructor(private stores: StoreRegistry) {
+    this.server = new Server(
+      {
+        name: "inked",
+        version: "2.0.0",
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
+        },
+      },
+    );
+
+    this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+    this.server.onerror = (error) => {
+      console.error("[MCP Error]", error);
+    };
+  }
+
+  private setupToolHandlers(): void {
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: [
+          {
+            name: "read",
+            description:
+              "Search and retrieve memories using powerful semantic search. Use 'ALL' to get all memories, or search terms for intelligent matching including synonyms, fuzzy matching, and context understanding. Pass searches to look up several topics at once.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                search: {
+                  type: "string",
+                  description:
+                    "Search query. Use 'ALL' to retrieve all memories, or any terms for semantic search. Also supports \"exact phrases\", -excluded terms, AND / OR with parentheses, prefix* wildcards and the fields tag:, id:, before: and after: (ISO 8601 dates), e.g. 'deploy AND (friday OR weekend) -staging tag:work'.",
+                },
+                searches: {
+                  type: "array",
+                  items: { type: "string" },
+                  minItems: 1,
+                  maxItems: 50,
+                  description:
+                    "Optional: Several queries to answer in one call, instead of search. Results are reported per query, and max_chars is split between them",
+                },
+                topr: {
+                  type: "number",
+                  description:
+                    "Number of results per page (1-100, default: 3)",
+                  minimum: 1,
+                  maximum: 100,
+                  default: 3,
+                },
+                offset: {
+                  type: "number",
+                  description: "Optional: Number of results to skip (for paging)",
+                  minimum: 0,
+                },
+                cursor: {
+                  type: "string",
+                  description:
+                    "Optional: Cursor from a previous response's footer to fetch the next page (takes precedence over offset)",
+                },
+                sort: {
+                  type: "string",
+                  enum: ["relevance", "newest", "oldest"],
+                  description:
+                    "Optional: Result order. 'relevance' (default) ranks by match quality; 'ALL' treats it as 'newest'",
+                  default: "relevance",
+                },
+                created_after: {
+                  type: "string",
+                  description: "Optional: Only memories created at or after this ISO 8601 date/time",
+                },
+                created_before: {
+                  type: "string",
+                  description: "Optional: Only memories created before this ISO 8601 date/time",
+                },
+                max_chars: {
+                  type: "number",
+                  description:
+                    "Optional: Character budget for the response; the page stops early once it is reached (default: 20000)",
+                  minimum: 500,
+                  default: 20000,
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    "Optional: Only return memories carrying all of these tags (also applies to 'ALL')",
+                },
+                namespace: {
+                  type: "string",
+                  description:
+                    "Optional: Only return memories in this namespace (also applies to 'ALL')",
+                },
+                history: {
+                  type: "boolean",
+                  description:
+                    "Optional: Include each memory's revision history (earlier versions replaced by UPDATE)",
+                  default: false,
+                },
+                explain: {
+                  type: "boolean",
+                  description:
+                    "Optional: Show how each result's relevance score was computed (text match, length, importance, recency and usage components) and its read count",
+                  default: false,
+                },
+                expand: {
+                  type: "number",
+                  description:
+                    "Optional: Also return memories linked to the results, up to this many hops away (0-3, default: 0)",
+                  minimum: 0,
+                  maximum: 3,
+                  default: 0,
+                },
+                include_superseded: {
+                  type: "boolean",
+                  description:
+                    "Optional: Include memories that a newer memory supersedes (hidden by default)",
+                  default: false,
+                },
+                format: formatProperty,
+                store: storeProperty,
+              },
+            },
+            outputSchema: readOutputSchema,
+          },
+          {
+            name: "write",
+            description:
+              'Add new memories, correct existing ones or delete them. Use sTool="NEW" to add, sTool="UPDATE" to edit a memory in place (keeps its ID and saves the old text as a revision), sTool="DELETE" to move a memory to the trash, sTool="UNDELETE" to restore it. DELETE by search query only lists candidates and returns a confirmation token; nothing is deleted until you call DELETE again with that token. Pass operations to apply several changes at once, all or nothing. Memories can be any format - structured notes, preferences, facts, or simple thoughts.',
+            inputSchema: {
+              type: "object",
+              properties: {
+                ...writeOperationProperties,
+                operations: {
+                  type: "array",
+                  description:
+                    'Optional: Several operations to run in order in one transaction, instead of content and sTool. If any operation fails, none are saved. DELETE and UNDELETE need an id here',
+                  minItems: 1,
+                  maxItems: 50,
+                  items: {
+                    type: "object",
+                    properties: writeOperationProperties,
+                    required: ["content", "sTool"],
+                  },
+                },
+                format: formatProperty,
+                store: storeProperty,
+              },
+            },
+            outputSchema: writeOutputSchema,
+          },
+          {
+            name: "export",
+            description:
+              "Export every memory with its ID, timestamps, tags and namespace as JSON, JSONL or Markdown. Returns the export inline, or writes it to a new file in the server's exports directory when a path is given.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                format: {
+                  type: "string",
+                  enum: ["json", "jsonl", "markdown"],
+                  description:
+                    "Export format (default: json, or inferred from the path's extension)",
+                },
+                path: {
+                  type: "string",
+                  description: "Optional: New file to write the export to, relative to the server's exports directory; existing files are never overwritten",
+                },
+                store: storeProperty,
+              },
+            },
+          },
+          {
+            name: "import",
+            description:
+              "Import memories from a JSON, JSONL or Markdown export. Memories whose content already exists are skipped and reported.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                data: {
+                  type: "string",
+                  description: "Export contents to import (use this or path)",
+                },
+                path: {
+                  type: "string",
+                  description: "File in the server's exports directory to import from, relative to it (use this or data)",
+                },
+                format: {
+                  type: "string",
+                  enum: ["json", "jsonl", "markdown"],
+                  description:
+                    "Import format (default: json, or inferred from the path's extension)",
+                },
+                mode: {
+                  type: "string",
+                  enum: ["merge", "replace"],
+                  description:
+                    '"merge" adds new memories alongside existing ones; "replace" deletes all existing memories first',
+                  default: "merge",
+                },
+                store: storeProperty,
+              },
+            },
+          },
+          {
+            name: "duplicates",
+            description:
+              "Scan the store for memories that say the same thing, grouped under the oldest copy with similarity scores. Read-only: use write DELETE or UPDATE to clean up.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                threshold: {
+                  type: "number",
+                  description:
+                    "Optional: Similarity (0-1) at which memories count as duplicates. Defaults to the server setting (0.85)",
+                  minimum: 0,
+                  maximum: 1,
+                },
+                namespace: {
+                  type: "string",
+                  description: "Optional: Only scan memories in this namespace",
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: Only scan memories carrying all of these tags",
+                },
+                store: storeProperty,
+              },
+            },
+          },
+          {
+            name: "vocabulary",
+            description:
+              "View or edit the search vocabulary: synonym groups (any term in a group also finds the others) and per-language stop words (ignored when searching). Changes apply to the next read.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                action: {
+                  type: "string",
+                  enum: ["list", "add_synonyms", "remove_synonyms", "add_stop_words", "remove_stop_words"],
+                  description:
+                    'What to do. "add_synonyms" creates a new group unless "group" names an existing one; "remove_synonyms" without terms deletes the whole group',
+                },
+                terms: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Synonyms or stop words to add or remove",
+                },
+                group: {
+                  type: "number",
+                  description: 'Synonym group ID, as shown by "list"',
+                },
+                language: {
+                  type: "string",
+                  enum: ["en", "de"],
+                  description: 'Optional: Stop word language (default: "en")',
+                },
+                store: storeProperty,
+              },
+              required: ["action"],
+            },
+          },
+          {
+            name: "digest",
+            description:
+              "Summarise the whole store within a token budget, for loading at the start of a conversation. Pinned memories come first, then the most valuable memories (by importance, recency and use) in full, grouped by namespace or tag; the rest are listed by title or counted.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                max_tokens: {
+                  type: "number",
+                  description: "Optional: Token budget for the digest (estimated locally, default: 2000)",
+                  minimum: 100,
+                  maximum: 100000,
+                  default: 2000,
+                },
+                namespace: {
+                  type: "string",
+                  description: "Optional: Only digest memories in this namespace",
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: Only digest memories carrying all of these tags",
+                },
+                store: storeProperty,
+              },
+            },
+          },
+          {
+            name: "audit",
+            description:
+              "Show who changed what: the store's append-only log of every memory write, with the client and tool that made it, its arguments, and the text before and after. Entries outlive deleted and purged memories.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                memory_id: {
+                  type: "number",
+                  description: "Optional: Only changes to this memory, including links from or to it",
+                },
+                operation: {
+                  type: "string",
+                  enum: ["created", "updated", "merged", "deleted", "restored", "imported", "purged", "expired", "linked", "unlinked"],
+                  description: "Optional: Only changes of this kind",
+                },
+                since: {
+                  type: "string",
+                  description: "Optional: Only changes at or after this ISO 8601 date",
+                },
+                until: {
+                  type: "string",
+                  description: "Optional: Only changes before this ISO 8601 date",
+                },
+                limit: {
+                  type: "number",
+                  description: "Optional: Most entries to return, newest first (default: 20)",
+                  minimum: 1,
+                  maximum: 200,
+                  default: 20,
+                },
+                store: storeProperty,
+              },
+            },
+          },
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const client = this.server.getClientVersion();
+
+      // Whatever the call changes is attributed to this client in the audit log
+      return await runAs({
+        client_name: client?.name ?? null,
+        client_version: client?.version ?? null,
+        tool: name,
+        arguments: args ?? null,
+      }, async () => {
+        try {
+          switch (name) {
+            case "read": {
+              const validatedArgs = ReadToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleReadTool(validatedArgs, store);
+            }
+
+            case "write": {
+              const validatedArgs = WriteToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleWriteTool(validatedArgs, store);
+            }
+
+            case "export": {
+              const validatedArgs = ExportToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleExportTool(validatedArgs, store, this.stores.transferDir);
+            }
+
+            case "import": {
+              const validatedArgs = ImportToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleImportTool(validatedArgs, store, this.stores.transferDir);
+            }
+
+            case "duplicates": {
+              const validatedArgs = DuplicatesToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleDuplicatesTool(validatedArgs, store);
+            }
+
+            case "vocabulary": {
+              const validatedArgs = VocabularyToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleVocabularyTool(validatedArgs, store);
+            }
+
+            case "digest": {
+              const validatedArgs = DigestToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleDigestTool(validatedArgs, store);
+            }
+
+            case "audit": {
+              const validatedArgs = AuditToolSchema.parse(args);
+              const store = await this.stores.get(validatedArgs.store);
+              return await handleAuditTool(validatedArgs, store);
+            }
+
+            default:
+              throw new McpError(
+                ErrorCode.MethodNotFound,
+                `Unknown tool: ${name}`,
+              );
+          }
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text" as const,
+                text: `Tool execution failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+              },
+            ],
+          };
+        }
+      });
+    });
+  }
+
+  // Resources expose the server's default store
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      try {
+        return await listMemoryResources(await this.stores.get(), request.params?.cursor);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+      }
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const result = await readResource(await this.stores.get(), request.params.uri);
+      if (!result) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resource not found: ${request.params.uri}`,
+        );
+      }
+      return result;
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: PROMPTS };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      if (name !== "load-memories") {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+      return await getLoadMemoriesPrompt(await this.stores.get(), args);
+    });
+  }
+
+  // Tells the client which resources a write touched
+  async notifyResourceChange(change: MemoryChange): Promise<void> {
+    // Nothing to tell a client that has not finished initializing
+    if (!this.server.getClientCapabilities()) {
+      return;
+    }
+
+    try {
+      if (change.type !== "updated") {
+        await this.server.sendResourceListChanged();
+      }
+
+      for (const uri of this.subscriptions) {
+        // Collections (tag/namespace) may include any memory, so they always refresh
+        const affected = uri.startsWith(MEMORY_URI_PREFIX)
+          ? change.ids.length === 0 || change.ids.some((id) => memoryUri(id) === uri)
+          : true;
+        if (affected) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+    } catch (error) {
+      console.error("Failed to send resource notifications:", error);
+    }
+  }
+}
+
+class InkedServer {
+  private stores: StoreRegistry;
+  private purgeTimer?: NodeJS.Timeout;
+  private sweepTimer?: NodeJS.Timeout;
+  // Connected clients: one over stdio, any number over http
+  private sessions = new Set<InkedSession>();
+  private http?: HttpServerHandle;
+
+  constructor(private config: InkedConfig) {
+    this.stores = new StoreRegistry(config);
+  }
+
+  // Serves one more client over transport; start() does this for stdio and
+  // http, tests call it with an in-process transport
+  async connect(transport: Transport): Promise<void> {
+    const session = new InkedSession(this.stores);
+    this.sessions.add(session);
+    session.server.onclose = () => {
+      this.sessions.delete(session);
+    };
+    await session.server.connect(transport);
+  }
+
+  private setupErrorHandling(): void {
+    process.on("SIGINT", async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    process.on("SIGTERM", async () => {
+      await this.close();
+      process.exit(0);
+    });
+  }
+
+  async start(): Promise<void> {
+    this.setupErrorHandling();
+    try {
+      // Open the default store up front so configuration problems fail fast
+      const store = await this.stores.get();
+      store.db.on("change", (change: MemoryChange) => {
+        for (const session of this.sessions) {
+          session.notifyResourceChange(change);
+        }
+      });
+
+      this.purgeTimer = setInterval(() => this.stores.purgeAll(), PURGE_INTERVAL_MS);
+      this.purgeTimer.unref();
+      this.sweepTimer = setInterval(() => this.stores.sweepAll(), SWEEP_INTERVAL_MS);
+      this.sweepTimer.unref();
+
+      if (this.config.transport === "http") {
+        const token = this.config.httpToken ?? randomBytes(24).toString("base64url");
+        this.http = await startHttpServer(
+          { port: this.config.port, token },
+          (transport) => this.connect(transport),
+        );
+        console.error("Inked v2.0 MCP server started successfully");
+        console.error(`✓ Listening on ${this.http.url}${MCP_PATH} (HTTP+SSE clients: ${this.http.url}${SSE_PATH})`);
+        if (!this.config.httpToken) {
+          console.error(`✓ Bearer token: ${token} (set INKED_HTTP_TOKEN to keep one across restarts)`);
+        }
+      } else {
+        await this.connect(new StdioServerTransport());
+        console.error("Inked v2.0 MCP server started successfully");
+      }
+
+      console.error(`✓ Memory store "${store.name}" at ${store.db.dbPath}`);
+      if (this.stores.embedderId) {
+        console.error(`✓ Hybrid text + embedding search enabled (${this.stores.embedderId})`);
+      } else {
+        console.error("✓ Fast semantic search enabled");
+      }
+    } catch (error) {
+      console.error("Failed to start Inked MCP server:", error);
+      process.exit(1);
+    }
+  }
+
+  // Ends every session and closes the stores
+  async close(): Promise<void> {
+    try {
+      clearInterval(this.purgeTimer);
+      clearInterval(this.sweepTimer);
+      await this.http?.close();
+      await Promise.allSettled([...this.sessions].map((session) => session.server.close()));
+      await this.stores.closeAll();
+      console.error("Inked MCP server stopped");
+    } catch (error) {
+      console.error("Error during cleanup:", error);
+    }
+  }
+}
+
+export { InkedServer };
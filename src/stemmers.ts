@@ -0,0 +1,212 @@
+// Languages with an analysis pipeline (stop words + stemmer)
+export type Language = 'en' | 'de';
+
+export const LANGUAGES: readonly Language[] = ['en', 'de'];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export function stem(word: string, language: Language): string {
+  return language === 'de' ? germanStem(word) : porterStem(word);
+}
+
+// English: the original Porter (1980) algorithm
+// https://tartarus.org/martin/PorterStemmer/def.txt
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble',
+  alli: 'al', entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate',
+  ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al',
+  iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+// Consonant/vowel sequences; m is the number of VC pairs in a stem
+const consonant = '[^aeiou]';
+const vowel = '[aeiouy]';
+const consonants = `${consonant}[^aeiouy]*`;
+const vowels = `${vowel}[aeiou]*`;
+
+const MEASURE_GT_0 = new RegExp(`^(${consonants})?${vowels}${consonants}`);
+const MEASURE_EQ_1 = new RegExp(`^(${consonants})?${vowels}${consonants}(${vowels})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${consonants})?${vowels}${consonants}${vowels}${consonants}`);
+const HAS_VOWEL = new RegExp(`^(${consonants})?${vowel}`);
+const ENDS_CVC = new RegExp(`${consonant}${vowel}[^aeiouwxy]$`);
+
+function porterStem(word: string): string {
+  if (word.length < 3) {
+    return word;
+  }
+
+  // A leading y is a consonant
+  const leadingY = word[0] === 'y';
+  let w = leadingY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2];
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) {
+      w = w.slice(0, -1);
+    }
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    if (HAS_VOWEL.test(match[1])) {
+      w = match[1];
+      if (/(at|bl|iz)$/.test(w)) {
+        w += 'e';
+      } else if (/([^aeiouylsz])\1$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (MEASURE_EQ_1.test(w) && ENDS_CVC.test(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = `${match[1]}i`;
+  }
+
+  // Step 2: double suffixes to single ones
+  if ((match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) {
+      w = match[1] + STEP2_SUFFIXES[match[2]];
+    }
+  }
+
+  // Step 3: -ic-, -full, -ness etc.
+  if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) {
+      w = match[1] + STEP3_SUFFIXES[match[2]];
+    }
+  }
+
+  // Step 4: remaining suffixes on long stems
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1])) {
+      w = match[1];
+    }
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1] + match[2])) {
+      w = match[1] + match[2];
+    }
+  }
+
+  // Step 5: tidy up a final -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (MEASURE_GT_1.test(base) || (MEASURE_EQ_1.test(base) && !ENDS_CVC.test(base))) {
+      w = base;
+    }
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return leadingY ? `y${w.slice(1)}` : w;
+}
+
+// German: the Snowball German stemmer
+// https://snowballstem.org/algorithms/german/stemmer.html
+
+const GERMAN_VOWELS = new Set('aeiouyäöü');
+
+const VALID_S_ENDING = /[bdfghklmnrt]$/;
+const VALID_ST_ENDING = /[bdfghklmnt]$/;
+
+function isGermanVowel(char: string | undefined): boolean {
+  return char !== undefined && GERMAN_VOWELS.has(char);
+}
+
+// Start of the region after the first non-vowel that follows a vowel, searching from `from`
+function regionStart(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isGermanVowel(word[i]) && isGermanVowel(word[i - 1])) {
+      return i + 1;
+    }
+  }
+  return word.length;
+}
+
+// Longest of the suffixes that the word ends with and that lies inside the region
+function longestSuffix(word: string, suffixes: string[], region: number): string | undefined {
+  return suffixes
+    .filter(suffix => word.endsWith(suffix) && word.length - suffix.length >= region)
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+function germanStem(word: string): string {
+  let w = word.replace(/ß/g, 'ss');
+
+  // u and y between vowels are consonants
+  const chars = w.split('');
+  for (let i = 1; i < chars.length - 1; i++) {
+    if (isGermanVowel(chars[i - 1]) && isGermanVowel(chars[i + 1])) {
+      if (chars[i] === 'u') chars[i] = 'U';
+      else if (chars[i] === 'y') chars[i] = 'Y';
+    }
+  }
+  w = chars.join('');
+
+  const r1 = Math.max(regionStart(w, 0), 3);
+  const r2 = regionStart(w, r1);
+
+  // Step 1
+  const step1 = longestSuffix(w, ['em', 'ern', 'er', 'e', 'en', 'es', 's'], r1);
+  if (step1 === 'em' || step1 === 'ern' || step1 === 'er') {
+    w = w.slice(0, -step1.length);
+  } else if (step1 === 'e' || step1 === 'en' || step1 === 'es') {
+    w = w.slice(0, -step1.length);
+    if (w.endsWith('niss')) {
+      w = w.slice(0, -1);
+    }
+  } else if (step1 === 's' && VALID_S_ENDING.test(w.slice(0, -1))) {
+    w = w.slice(0, -1);
+  }
+
+  // Step 2
+  const step2 = longestSuffix(w, ['en', 'er', 'est', 'st'], r1);
+  if (step2 === 'en' || step2 === 'er' || step2 === 'est') {
+    w = w.slice(0, -step2.length);
+  } else if (step2 === 'st' && VALID_ST_ENDING.test(w.slice(0, -2)) && w.length - 3 >= 3) {
+    w = w.slice(0, -2);
+  }
+
+  // Step 3: derivational suffixes
+  const step3 = longestSuffix(w, ['end', 'ung', 'ig', 'ik', 'isch', 'lich', 'heit', 'keit'], r2);
+  if (step3 === 'end' || step3 === 'ung') {
+    w = w.slice(0, -step3.length);
+    if (w.endsWith('ig') && w.length - 2 >= r2 && !w.endsWith('eig')) {
+      w = w.slice(0, -2);
+    }
+  } else if ((step3 === 'ig' || step3 === 'ik' || step3 === 'isch') && !w.slice(0, -step3.length).endsWith('e')) {
+    w = w.slice(0, -step3.length);
+  } else if (step3 === 'lich' || step3 === 'heit') {
+    w = w.slice(0, -step3.length);
+    const before = longestSuffix(w, ['er', 'en'], r1);
+    if (before) {
+      w = w.slice(0, -before.length);
+    }
+  } else if (step3 === 'keit') {
+    w = w.slice(0, -step3.length);
+    const before = longestSuffix(w, ['lich', 'ig'], r2);
+    if (before) {
+      w = w.slice(0, -before.length);
+    }
+  }
+
+  return w
+    .replace(/U/g, 'u')
+    .replace(/Y/g, 'y')
+    .replace(/ä/g, 'a')
+    .replace(/ö/g, 'o')
+    .replace(/ü/g, 'u');
+}
@@ -0,0 +1,154 @@
+import { join } from 'path';
+import { DatabaseManager, IN_MEMORY_DB } from './database.js';
+import { FastSemanticSearch, SemanticMatcher } from './search.js';
+import { VectorSearch } from './vector.js';
+import { HybridSearch } from './hybrid.js';
+import { DuplicateDetector } from './duplicates.js';
+import { Embedder, createEmbedder } from './embeddings.js';
+import { InkedConfig, DEFAULT_STORE, validateStoreName } from './config.js';
+import { Release, markInUse } from './locks.js';
+
+// One isolated memory set: its own database file and search engine
+export interface MemoryStore {
+  name: string;
+  db: DatabaseManager;
+  searchEngine: SemanticMatcher;
+  duplicates: DuplicateDetector;
+}
+
+export interface StoreOptions {
+  // Skip the trash purge, expiry sweep and every vector backfill, for
+  // one-shot commands that only read
+  readOnly?: boolean;
+}
+
+// Opens named stores on first use and keeps them open for the server's lifetime
+export class StoreRegistry {
+  private readonly stores = new Map<string, Promise<MemoryStore>>();
+  private readonly embedder?: Embedder;
+  // Stopped before the databases close, so no backfill writes to a closed store
+  private readonly vectorSearches: VectorSearch[] = [];
+  // Tell encrypt, rotate-key and decrypt that the stores are open
+  private readonly inUse: Release[] = [];
+
+  constructor(private readonly config: InkedConfig, private readonly options: StoreOptions = {}) {
+    // One embedder (and model load) shared by every store
+    if (config.embeddings) {
+      this.embedder = createEmbedder(config.embeddings, config.embeddingModel);
+    }
+  }
+
+  get embedderId(): string | undefined {
+    return this.embedder?.id;
+  }
+
+  get defaultStore(): string {
+    return this.config.defaultStore;
+  }
+
+  // The only directory the export and import tools write to or read from
+  get transferDir(): string {
+    return join(this.config.dataDir, 'exports');
+  }
+
+  storePath(name: string): string {
+    if (name === this.config.defaultStore && this.config.dbPath) {
+      return this.config.dbPath;
+    }
+    if (name === DEFAULT_STORE) {
+      return join(this.config.dataDir, 'memories.db');
+    }
+    return join(this.config.dataDir, 'stores', `${name}.db`);
+  }
+
+  async get(name: string = this.config.defaultStore): Promise<MemoryStore> {
+    validateStoreName(name);
+
+    let store = this.stores.get(name);
+    if (!store) {
+      store = this.open(name);
+      this.stores.set(name, store);
+      // Let a later call retry if opening failed
+      store.catch(() => this.stores.delete(name));
+    }
+    return store;
+  }
+
+  private async open(name: string): Promise<MemoryStore> {
+    const path = this.storePath(name);
+    const db = new DatabaseManager(path, this.config.encryption);
+    if (path !== IN_MEMORY_DB) {
+      const release = await markInUse(path);
+      this.inUse.push(release);
+    }
+    await db.initialize();
+    if (!this.options.readOnly) {
+      await db.purgeDeleted(this.config.purgeAfterDays);
+      await db.sweepExpired();
+    }
+
+    // Duplicate detection always uses the text matcher's scoring
+    const lexicalSearch = new FastSemanticSearch(db, this.config.scoring, this.config.language);
+    const duplicates = new DuplicateDetector(db, lexicalSearch, this.config.duplicatePolicy, this.config.duplicateThreshold);
+
+    if (!this.embedder) {
+      return { name, db, searchEngine: lexicalSearch, duplicates };
+    }
+
+    // Backfill vectors for existing memories without holding up the store
+    const vectorSearch = new VectorSearch(db, this.embedder, lexicalSearch, this.options.readOnly);
+    this.vectorSearches.push(vectorSearch);
+    vectorSearch.sync().catch(error => {
+      console.error(`Failed to compute embeddings for store "${name}":`, error instanceof Error ? error.message : error);
+    });
+
+    const { fusion, fusionWeights } = this.config;
+    const searchEngine = new HybridSearch([
+      { name: 'lexical', matcher: lexicalSearch, weight: fusionWeights.lexical },
+      { name: 'vector', matcher: vectorSearch, weight: fusionWeights.vector }
+    ], fusion);
+    return { name, db, searchEngine, duplicates };
+  }
+
+  // Empties expired trash in every open store
+  async purgeAll(): Promise<void> {
+    for (const store of this.stores.values()) {
+      try {
+        const { name, db } = await store;
+        const purged = await db.purgeDeleted(this.config.purgeAfterDays);
+        if (purged > 0) {
+          console.error(`Purged ${purged} deleted memories from store "${name}"`);
+        }
+      } catch (error) {
+        console.error('Failed to purge deleted memories:', error);
+      }
+    }
+  }
+
+  // Deletes memories whose expiry has passed in every open store
+  async sweepAll(): Promise<void> {
+    for (const store of this.stores.values()) {
+      try {
+        const { name, db } = await store;
+        const swept = await db.sweepExpired();
+        if (swept > 0) {
+          console.error(`Removed ${swept} expired memories from store "${name}"`);
+        }
+      } catch (error) {
+        console.error('Failed to remove expired memories:', error);
+      }
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    const stores = await Promise.allSettled(this.stores.values());
+    this.stores.clear();
+    await Promise.all(this.vectorSearches.splice(0).map(vectorSearch => vectorSearch.stop()));
+    for (const result of stores) {
+      if (result.status === 'fulfilled') {
+        await result.value.db.close();
+      }
+    }
+    await Promise.all(this.inUse.splice(0).map(release => release()));
+  }
+}
@@ -1,54 +1,1125 @@
 import { z } from 'zod';
-import { db } from './database.js';
-import { FastSemanticSearch } from './search.js';
+import { readFile, writeFile } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import type { MemoryStore } from './stores.js';
+import { parseTimestamp } from './search.js';
+import type { SearchResult, ScoreBreakdown } from './search.js';
+import type { LinkRelation, LinkTarget, MemoryLink, MemoryRevision } from './database.js';
+import { DEFAULT_IMPORTANCE, toSqlTimestamp } from './database.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from './stemmers.js';
+import { encodeCursor, decodeCursor } from './pagination.js';
+import {
+  detectFormat,
+  exportMemories,
+  parseExport,
+  importMemories,
+  transferPath,
+  formatImportReport,
+} from './transfer.js';
+import { buildDigest, DEFAULT_DIGEST_TOKENS } from './digest.js';
+import { runAs } from './audit.js';
+import { plainQuery } from './query.js';
+import type { AuditEntry } from './audit.js';
+
+// Normalized to a UTC SQLite timestamp; values without a zone are UTC
+const isoDate = z.string().transform((value, context) => {
+  try {
+    return toSqlTimestamp(value);
+  } catch {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be an ISO 8601 date, e.g. 2025-06-01 or 2025-06-01T12:00:00Z' });
+    return z.NEVER;
+  }
+});
+
+// Relative lifetimes such as "30m", "12h", "7d" or "2w"
+const TTL_PATTERN = /^0*([1-9]\d*)\s*([mhdw])$/i;
+
+const TTL_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+// Most operations or queries a single write or read call may carry
+const MAX_BATCH_SIZE = 50;
+
+const DEFAULT_AUDIT_ENTRIES = 20;
+const MAX_AUDIT_ENTRIES = 200;
+
+// Characters of before/after content shown per audit entry
+const AUDIT_PREVIEW_CHARS = 200;
 
 export const ReadToolSchema = z.object({
-  search: z.string().min(1, 'Search query is required'),
-  topr: z.number().int().min(1).max(5).optional().default(3)
+  search: z.string().min(1, 'Search query is required').optional(),
+  searches: z.array(z.string().min(1, 'Search query is required')).min(1).max(MAX_BATCH_SIZE).optional(),
+  topr: z.number().int().min(1).max(100).optional().default(3),
+  offset: z.number().int().min(0).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(['relevance', 'newest', 'oldest']).optional().default('relevance'),
+  created_after: isoDate.optional(),
+  created_before: isoDate.optional(),
+  max_chars: z.number().int().min(500).optional().default(20000),
+  tags: z.array(z.string().min(1)).optional(),
+  namespace: z.string().trim().min(1).optional(),
+  history: z.boolean().optional().default(false),
+  explain: z.boolean().optional().default(false),
+  expand: z.number().int().min(0).max(3).optional().default(0),
+  include_superseded: z.boolean().optional().default(false),
+  format: z.enum(['text', 'json', 'compact']).optional().default('text'),
+  store: z.string().min(1).optional()
+}).refine(params => (params.search === undefined) !== (params.searches === undefined), {
+  message: 'Provide exactly one of "search" or "searches"'
+}).refine(params => !(params.searches && params.cursor), {
+  message: '"cursor" pages a single search; use "search" to page through one query'
 });
 
-export const WriteToolSchema = z.object({
+const writeOperationShape = {
   content: z.string().min(1, 'Content is required'),
-  sTool: z.enum(['NEW', 'DELETE'], {
-    errorMap: () => ({ message: 'sTool must be either "NEW" or "DELETE"' })
+  sTool: z.enum(['NEW', 'UPDATE', 'DELETE', 'UNDELETE'], {
+    errorMap: () => ({ message: 'sTool must be one of "NEW", "UPDATE", "DELETE" or "UNDELETE"' })
   }),
-  id: z.number().int().positive().optional()
+  id: z.number().int().positive().optional(),
+  query: z.string().min(1).optional(),
+  confirm: z.string().min(1).optional(),
+  on_duplicate: z.enum(['reject', 'merge', 'flag', 'allow']).optional(),
+  importance: z.number().int().min(1).max(5).optional(),
+  pinned: z.boolean().optional(),
+  expires_at: z.union([z.literal('never'), isoDate]).optional(),
+  language: z.enum(['en', 'de']).optional(),
+  ttl: z.string().regex(TTL_PATTERN, 'ttl must be a positive number followed by m, h, d or w, e.g. "7d"').optional(),
+  links: z.array(z.object({
+    id: z.number().int().positive(),
+    relation: z.enum(['relates_to', 'supersedes', 'contradicts', 'part_of'])
+  })).optional(),
+  unlink: z.array(z.object({
+    id: z.number().int().positive(),
+    relation: z.enum(['relates_to', 'supersedes', 'contradicts', 'part_of']).optional()
+  })).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  namespace: z.string().trim().min(1).optional()
+};
+
+const hasOneExpiry = (params: { expires_at?: string; ttl?: string }) => !(params.expires_at && params.ttl);
+
+// Previews and trash listings need a follow-up call, so a batch only takes
+// deletes and restores by id
+const WriteOperationSchema = z.object(writeOperationShape).refine(hasOneExpiry, {
+  message: 'Provide at most one of "expires_at" or "ttl"'
+}).refine(operation => (operation.sTool !== 'DELETE' && operation.sTool !== 'UNDELETE') || (operation.id !== undefined && !operation.confirm), {
+  message: 'DELETE and UNDELETE in "operations" need an id (confirm tokens and search previews only work one at a time)'
+});
+
+export const WriteToolSchema = z.object({
+  ...writeOperationShape,
+  content: writeOperationShape.content.optional(),
+  sTool: writeOperationShape.sTool.optional(),
+  operations: z.array(WriteOperationSchema).min(1).max(MAX_BATCH_SIZE).optional(),
+  format: z.enum(['text', 'json', 'compact']).optional().default('text'),
+  store: z.string().min(1).optional()
+}).refine(hasOneExpiry, {
+  message: 'Provide at most one of "expires_at" or "ttl"'
+}).refine(params => params.operations ? !params.content && !params.sTool : !!params.content && !!params.sTool, {
+  message: 'Provide either "content" and "sTool" for one operation, or "operations" for a batch'
+});
+
+type WriteOperation = z.infer<typeof WriteOperationSchema>;
+
+export const ExportToolSchema = z.object({
+  format: z.enum(['json', 'jsonl', 'markdown']).optional(),
+  path: z.string().min(1).optional(),
+  store: z.string().min(1).optional()
+});
+
+export const ImportToolSchema = z.object({
+  data: z.string().min(1).optional(),
+  path: z.string().min(1).optional(),
+  format: z.enum(['json', 'jsonl', 'markdown']).optional(),
+  mode: z.enum(['merge', 'replace']).optional().default('merge'),
+  store: z.string().min(1).optional()
+}).refine(params => !!params.data !== !!params.path, {
+  message: 'Provide exactly one of "data" or "path"'
+});
+
+export const DuplicatesToolSchema = z.object({
+  threshold: z.number().min(0).max(1).optional(),
+  namespace: z.string().trim().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  store: z.string().min(1).optional()
+});
+
+export const DigestToolSchema = z.object({
+  max_tokens: z.number().int().min(100).max(100000).optional().default(DEFAULT_DIGEST_TOKENS),
+  namespace: z.string().trim().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  store: z.string().min(1).optional()
+});
+
+export const AuditToolSchema = z.object({
+  memory_id: z.number().int().positive().optional(),
+  operation: z.enum(['created', 'updated', 'merged', 'deleted', 'restored', 'imported', 'purged', 'expired', 'linked', 'unlinked']).optional(),
+  since: isoDate.optional(),
+  until: isoDate.optional(),
+  limit: z.number().int().min(1).max(MAX_AUDIT_ENTRIES).optional().default(DEFAULT_AUDIT_ENTRIES),
+  store: z.string().min(1).optional()
 });
 
+export const VocabularyToolSchema = z.object({
+  action: z.enum(['list', 'add_synonyms', 'remove_synonyms', 'add_stop_words', 'remove_stop_words']),
+  terms: z.array(z.string().trim().min(1)).optional(),
+  group: z.number().int().positive().optional(),
+  language: z.enum(['en', 'de']).optional(),
+  store: z.string().min(1).optional()
+}).refine(params => params.action === 'list' || params.action === 'remove_synonyms' || (params.terms?.length ?? 0) > 0, {
+  message: '"terms" is required for this action'
+}).refine(params => params.action !== 'remove_synonyms' || params.group !== undefined, {
+  message: '"group" is required to remove synonyms'
+});
+
+// What the text block of a read or write shows; structuredContent is always sent
+export type OutputFormat = 'text' | 'json' | 'compact';
+
+export type LinkDirection = 'outgoing' | 'incoming';
+
+// A link as seen from one of its memories
+export type MemoryLinkResult = {
+  id: number;
+  relation: LinkRelation;
+  direction: LinkDirection;
+};
+
+// One memory in a read's structuredContent
+export type MemoryResult = {
+  id: number;
+  content: string;
+  created_at: string;
+  relevanceScore: number;
+  matchType: string;
+  metadata: {
+    updated_at: string | null;
+    namespace: string | null;
+    tags: string[];
+    importance: number;
+    pinned: boolean;
+    expires_at: string | null;
+    language: string | null;
+    access_count: number;
+    last_accessed_at: string | null;
+    links: MemoryLinkResult[];
+    // Only with explain; null when the text matcher did not score the result
+    explanation?: ScoreBreakdown | null;
+    // Only with history, newest first
+    revisions?: { content: string; revised_at: string }[];
+  };
+};
+
+// A memory reached by link expansion from a memory on the page
+export type LinkedMemoryResult = {
+  id: number;
+  content: string;
+  created_at: string;
+  hop: number;
+  via: number;
+  relation: LinkRelation;
+  // Direction of the link as seen from the via memory
+  direction: LinkDirection;
+};
+
+export type ReadOutput = {
+  results: MemoryResult[];
+  linked: LinkedMemoryResult[];
+  // Pass as cursor to fetch the next page; null on the last page
+  next_cursor: string | null;
+  // Set when only this many best matches were sorted by date, so later
+  // matches cannot be paged to
+  sorted_limit?: number;
+};
+
+// One query of a read with "searches"
+export type QueryResult = ReadOutput & {
+  search: string;
+  error: string | null;
+};
+
+export type BatchReadOutput = {
+  queries: QueryResult[];
+};
+
+export type BatchOperationStatus = 'applied' | 'failed' | 'rolled_back' | 'not_run';
+
+export type BatchOperationOutcome = {
+  sTool: WriteOperation['sTool'];
+  status: BatchOperationStatus;
+  // The operation's own response text, or why it failed
+  message: string;
+  // What the operation did, even if the batch was then rolled back; null
+  // when it failed or did not run
+  result: WriteOutput | null;
+};
+
+// A batch either commits every operation or none of them
+export type BatchWriteOutput = {
+  committed: boolean;
+  operations: BatchOperationOutcome[];
+};
+
+export type WriteAction = 'created' | 'merged' | 'updated' | 'deleted' | 'restored' | 'confirm_delete' | 'list_trash';
+
+export type WriteOutput = {
+  action: WriteAction;
+  // The memory written, deleted or restored; null for previews and listings
+  id: number | null;
+  // The near-duplicate a NEW was merged into or saved alongside
+  duplicate?: { id: number; similarity: number };
+  // DELETE-by-query preview: the token to confirm with and the candidates
+  confirm?: string;
+  candidates?: { id: number; content: string; relevanceScore: number }[];
+  // UNDELETE without an id
+  trash?: { id: number; content: string; deleted_at: string }[];
+};
+
+// Characters of content shown per line in compact output
+const COMPACT_CONTENT_CHARS = 160;
+
+// Tools with an output schema must send structuredContent with every
+// successful result; format only chooses what the text block holds
+function toolOutput<T extends Record<string, unknown>>(format: OutputFormat, output: T, text: string, compact: string) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: format === 'json' ? JSON.stringify(output, null, 2) : format === 'compact' ? compact : text
+    }],
+    structuredContent: output
+  };
+}
+
+// One line per memory: "#12 (0.83) first words of the memory..."
+function compactLine(memory: { id: number; content: string }, label: string = ''): string {
+  const text = memory.content.replace(/\s+/g, ' ').trim();
+  const shown = text.length > COMPACT_CONTENT_CHARS ? `${text.slice(0, COMPACT_CONTENT_CHARS)}...` : text;
+  return `#${memory.id}${label && ` (${label})`} ${shown}`;
+}
+
+function compactWrite(output: WriteOutput): string {
+  switch (output.action) {
+    case 'confirm_delete':
+      return `confirm="${output.confirm}" candidates: ${output.candidates!.map(candidate => `#${candidate.id}`).join(', ')}`;
+    case 'list_trash':
+      return output.trash!.length > 0 ? `trash: ${output.trash!.map(memory => `#${memory.id}`).join(', ')}` : 'trash: empty';
+    case 'merged':
+      return `merged #${output.id}`;
+    default:
+      return output.duplicate ? `${output.action} #${output.id} (possible duplicate of #${output.duplicate.id})` : `${output.action} #${output.id}`;
+  }
+}
+
+// How many matches a DELETE-by-query offers for confirmation
+const DELETE_CANDIDATE_LIMIT = 3;
+
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+const TRASH_LIST_LIMIT = 10;
+
+interface PendingDelete {
+  store: string;
+  candidateIds: number[];
+  expiresAt: number;
+}
+
+// Confirmation tokens handed out by DELETE-by-query, keyed by token
+const pendingDeletes = new Map<string, PendingDelete>();
+
+// A failed index update must not fail the write; the next search backfills it
+async function indexMemory(store: MemoryStore, id: number, content: string): Promise<void> {
+  try {
+    await store.searchEngine.indexMemory?.(id, content);
+  } catch (error) {
+    console.error(`Failed to index memory ${id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+async function trashMemory(store: MemoryStore, id: number, format: OutputFormat) {
+  const deleted = await store.db.deleteMemory(id);
+  if (deleted) {
+    const output: WriteOutput = { action: 'deleted', id };
+    return toolOutput(
+      format,
+      output,
+      `Memory with ID ${id} has been moved to the trash. Use sTool="UNDELETE" with this ID to restore it before the trash is purged.`,
+      compactWrite(output)
+    );
+  }
+
+  return {
+    isError: true,
+    content: [{
+      type: "text" as const,
+      text: `No memory found with ID ${id}. The memory may have already been deleted.`
+    }]
+  };
+}
+
+// Neighbours returned per read by link expansion
+const LINK_EXPANSION_LIMIT = 20;
+
+// From the given memory's point of view: "-> supersedes #3" or "<- relates_to #5"
+function describeLink(link: MemoryLink, fromId: number): string {
+  return link.source_id === fromId
+    ? `-> ${link.relation} #${link.target_id}`
+    : `<- ${link.relation} #${link.source_id}`;
+}
+
+function linkFrom(link: MemoryLink, fromId: number): MemoryLinkResult {
+  return link.source_id === fromId
+    ? { id: link.target_id, relation: link.relation, direction: 'outgoing' }
+    : { id: link.source_id, relation: link.relation, direction: 'incoming' };
+}
+
+// Walks links breadth-first from the page's memories, in both directions,
+// until the character budget for the chosen format runs out
+async function expandLinks(
+  store: MemoryStore,
+  startIds: number[],
+  hops: number,
+  budget: number,
+  format: OutputFormat
+): Promise<{ linked: LinkedMemoryResult[]; text: string }> {
+  const visited = new Set(startIds);
+  const linked: LinkedMemoryResult[] = [];
+  const entries: string[] = [];
+  let frontier = startIds;
+  let omitted = 0;
+
+  for (let hop = 1; hop <= hops && frontier.length > 0; hop++) {
+    const frontierIds = new Set(frontier);
+    const next: number[] = [];
+    for (const link of await store.db.getLinks(frontier)) {
+      const fromId = frontierIds.has(link.source_id) ? link.source_id : link.target_id;
+      const neighbourId = fromId === link.source_id ? link.target_id : link.source_id;
+      if (visited.has(neighbourId)) {
+        continue;
+      }
+      visited.add(neighbourId);
+
+      const neighbour = await store.db.getMemory(neighbourId);
+      if (!neighbour) {
+        continue;
+      }
+      const { relation, direction } = linkFrom(link, fromId);
+      const item: LinkedMemoryResult = {
+        id: neighbour.id,
+        content: neighbour.content,
+        created_at: neighbour.created_at,
+        hop,
+        via: fromId,
+        relation,
+        direction
+      };
+      const entry = format === 'json' ? JSON.stringify(item)
+        : format === 'compact' ? compactLine(neighbour, `hop ${hop} via #${fromId}`)
+        : `Linked memory (ID: ${neighbour.id}, hop ${hop}, via #${fromId} ${describeLink(link, fromId)}):\n${neighbour.content}\nCreated: ${neighbour.created_at}`;
+      if (entries.length >= LINK_EXPANSION_LIMIT || entry.length > budget) {
+        omitted++;
+        continue;
+      }
+      linked.push(item);
+      entries.push(entry);
+      budget -= entry.length;
+      next.push(neighbourId);
+    }
+    frontier = next;
+  }
+
+  if (format === 'compact') {
+    const omittedNote = omitted > 0 ? `\n${omitted} linked omitted (size limit)` : '';
+    return { linked, text: entries.length > 0 ? `\nLinked:\n${entries.join('\n')}${omittedNote}` : omittedNote };
+  }
+  if (entries.length === 0) {
+    return { linked, text: omitted > 0 ? `\n\n---\n${omitted} linked memories omitted (response size limit).` : '' };
+  }
+  const omittedNote = omitted > 0 ? `\n\n${omitted} more linked memories omitted (response size limit).` : '';
+  return { linked, text: `\n\n---\nLinked memories (up to ${hops} hops):\n\n${entries.join('\n\n')}${omittedNote}` };
+}
+
+// Adds and removes a written memory's links; resolves to a note for the response
+async function applyLinks(
+  store: MemoryStore,
+  sourceId: number,
+  links: LinkTarget[] = [],
+  unlink: { id: number; relation?: LinkRelation }[] = []
+): Promise<string> {
+  const notes: string[] = [];
+  if (links.length > 0) {
+    await store.db.addLinks(sourceId, links);
+    notes.push(`Linked: ${links.map(link => `${link.relation} #${link.id}`).join(', ')}.`);
+    if (links.some(link => link.relation === 'supersedes')) {
+      notes.push('Superseded memories are now hidden from search (read with include_superseded to see them).');
+    }
+  }
+  if (unlink.length > 0) {
+    const removed = await store.db.removeLinks(sourceId, unlink);
+    notes.push(`Removed ${removed} links.`);
+  }
+  return notes.length > 0 ? ` ${notes.join(' ')}` : '';
+}
+
+// Usage tracking must not fail the read that triggered it
+async function recordAccess(store: MemoryStore, ids: number[]): Promise<void> {
+  try {
+    await store.db.recordAccess(ids);
+  } catch (error) {
+    console.error('Failed to record memory access:', error instanceof Error ? error.message : error);
+  }
+}
+
+function explainScore(memory: SearchResult): string {
+  const usage = `Reads: ${memory.access_count}${memory.last_accessed_at ? ` (last ${memory.last_accessed_at})` : ''}`;
+  const breakdown = memory.explanation;
+  if (!breakdown) {
+    return `Text score: n/a (${memory.matchType})\n${usage}`;
+  }
+  return `Text score: (terms ${breakdown.terms} × length ${breakdown.length} + multi-term ${breakdown.multiTerm})` +
+    ` × importance ${breakdown.importance} × recency ${breakdown.recency} × usage ${breakdown.usage} = ${breakdown.total}\n${usage}`;
+}
+
+// Resolves expires_at/ttl to an absolute expiry: undefined leaves it as is,
+// null clears it
+function expiryOf(params: { expires_at?: string; ttl?: string }): string | null | undefined {
+  if (params.ttl) {
+    const [, amount, unit] = params.ttl.match(TTL_PATTERN)!;
+    return new Date(Date.now() + Number(amount) * TTL_UNIT_MS[unit.toLowerCase()]).toISOString();
+  }
+  if (params.expires_at === 'never') {
+    return null;
+  }
+  if (params.expires_at && params.expires_at <= toSqlTimestamp(new Date().toISOString())) {
+    throw new Error(`expires_at ${params.expires_at} is in the past`);
+  }
+  return params.expires_at;
+}
+
+function preview(content: string): string {
+  return `${content.substring(0, 100)}${content.length > 100 ? '...' : ''}`;
+}
+
+// Upper bound on matches ranked when a query is re-sorted by date
+const MAX_SORTED_MATCHES = 1000;
+
 export async function handleReadTool(
   params: z.infer<typeof ReadToolSchema>, 
-  searchEngine: FastSemanticSearch
+  store: MemoryStore
+) {
+  try {
+    const { format } = params;
+    if (params.search !== undefined) {
+      const page = await readPage(params.search, params, params.max_chars, store);
+      return toolOutput(format, page.output, page.text, page.compact);
+    }
+
+    // Queries share the character budget equally; one failing query does
+    // not hide the answers to the others
+    const searches = params.searches!;
+    const budget = Math.floor(params.max_chars / searches.length);
+    const queries: QueryResult[] = [];
+    const texts: string[] = [];
+    const compacts: string[] = [];
+    for (const [index, search] of searches.entries()) {
+      try {
+        const page = await readPage(search, params, budget, store);
+        queries.push({ search, error: null, ...page.output });
+        texts.push(`Query ${index + 1} of ${searches.length} ("${search}"):\n\n${page.text}`);
+        compacts.push(`[${search}]\n${page.compact}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        queries.push({ search, error: message, results: [], linked: [], next_cursor: null });
+        texts.push(`Query ${index + 1} of ${searches.length} ("${search}"):\n\nError searching memories: ${message}`);
+        compacts.push(`[${search}]\nerror: ${message}`);
+      }
+    }
+
+    const output: BatchReadOutput = { queries };
+    return toolOutput(format, output, texts.join('\n\n===\n\n'), compacts.join('\n'));
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{
+        type: "text" as const,
+        text: `Error searching memories: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+}
+
+// One page of results for one query, rendered in every format
+async function readPage(
+  search: string,
+  params: z.infer<typeof ReadToolSchema>,
+  max_chars: number,
+  store: MemoryStore
+): Promise<{ output: ReadOutput; text: string; compact: string }> {
+  const { db, searchEngine } = store;
+  const { topr, sort, tags, namespace, created_after, created_before, include_superseded, format } = params;
+  const filters = { tags, namespace, created_after, created_before, include_superseded };
+  const offset = params.cursor ? decodeCursor(params.cursor) : params.offset ?? 0;
+  const isAll = search.toUpperCase() === 'ALL';
+
+  // Fetch one extra result so we know whether another page exists
+  let searchResults: SearchResult[];
+  let sortedLimit: number | undefined;
+  if (isAll) {
+    const memories = await db.listMemories(topr + 1, filters, offset, sort === 'oldest' ? 'oldest' : 'newest');
+    searchResults = memories.map(memory => ({ ...memory, relevanceScore: 1.0, matchType: 'all' }));
+  } else if (sort === 'relevance') {
+    searchResults = (await searchEngine.searchMemories(search, offset + topr + 1, filters)).slice(offset);
+  } else {
+    // Date order needs every match, not just the top-ranked page; past the
+    // cap only the best matches are sorted, and the response says so
+    const matches = await searchEngine.searchMemories(search, MAX_SORTED_MATCHES + 1, filters);
+    if (matches.length > MAX_SORTED_MATCHES) {
+      matches.length = MAX_SORTED_MATCHES;
+      sortedLimit = MAX_SORTED_MATCHES;
+    }
+    const direction = sort === 'oldest' ? 1 : -1;
+    matches.sort((a, b) => direction * (parseTimestamp(a.created_at) - parseTimestamp(b.created_at) || a.id - b.id));
+    searchResults = matches.slice(offset);
+  }
+  
+  const sortedNote = sortedLimit
+    ? ` Only the ${sortedLimit} best matches were sorted by date; narrow the search or add filters to reach the rest.`
+    : '';
+
+  if (searchResults.length === 0) {
+    const message = offset > 0
+      ? `No more memories matching "${search}" (offset ${offset}).${sortedNote}`
+      : `No memories found matching "${search}". Try different search terms or add new memories first.`;
+    return {
+      output: { results: [], linked: [], next_cursor: null, ...(sortedLimit ? { sorted_limit: sortedLimit } : {}) },
+      text: message,
+      compact: message
+    };
+  }
+
+  // Fill the page up to topr results or the character budget, whichever
+  // comes first; the first result is always included
+  const results: MemoryResult[] = [];
+  const pageTexts: string[] = [];
+  let usedChars = 0;
+  const candidates = searchResults.slice(0, topr);
+  const links = await db.getLinks(candidates.map(memory => memory.id));
+  for (const [index, memory] of candidates.entries()) {
+    const revisions = params.history ? await db.getRevisions(memory.id) : undefined;
+    const result = memoryResult(memory, links, params.explain, revisions);
+    const resultText = format === 'json' ? JSON.stringify(result)
+      : format === 'compact' ? compactLine(memory, memory.matchType === 'all' ? '' : String(memory.relevanceScore))
+      : formatReadResult(memory, offset + index + 1, params, links, revisions);
+    if (pageTexts.length > 0 && usedChars + resultText.length > max_chars) {
+      break;
+    }
+    results.push(result);
+    pageTexts.push(resultText);
+    usedChars += resultText.length;
+  }
+
+  const pageIds = results.map(result => result.id);
+  await recordAccess(store, pageIds);
+
+  const expansion = params.expand > 0
+    ? await expandLinks(store, pageIds, params.expand, max_chars - usedChars, format)
+    : { linked: [], text: '' };
+
+  const nextOffset = offset + pageTexts.length;
+  const nextCursor = searchResults.length > pageTexts.length ? encodeCursor(nextOffset) : null;
+  const range = `${offset + 1}-${nextOffset}`;
+  const footer = nextCursor
+    ? `\n\n---\nShowing results ${range}. More results available: call read again with cursor="${nextCursor}".${sortedNote}`
+    : sortedLimit ? `\n\n---\nShowing results ${range}.${sortedNote}`
+    : offset > 0 ? `\n\n---\nShowing results ${range}. No more results.` : '';
+
+  return {
+    output: {
+      results,
+      linked: expansion.linked,
+      next_cursor: nextCursor,
+      ...(sortedLimit ? { sorted_limit: sortedLimit } : {})
+    },
+    text: `Found ${pageTexts.length} relevant memories (semantic search${sort === 'relevance' ? '' : `, ${sort} first`}):\n\n${pageTexts.join('\n---\n\n')}${expansion.text}${footer}`,
+    compact: `${pageTexts.join('\n')}${expansion.text}${nextCursor ? `\nnext cursor: ${nextCursor}` : ''}${sortedLimit ? `\nsorted: best ${sortedLimit} only` : ''}`
+  };
+}
+
+function memoryResult(
+  memory: SearchResult,
+  links: MemoryLink[],
+  explain: boolean,
+  revisions?: MemoryRevision[]
+): MemoryResult {
+  const result: MemoryResult = {
+    id: memory.id,
+    content: memory.content,
+    created_at: memory.created_at,
+    relevanceScore: memory.relevanceScore,
+    matchType: memory.matchType,
+    metadata: {
+      updated_at: memory.updated_at,
+      namespace: memory.namespace,
+      tags: memory.tags,
+      importance: memory.importance,
+      pinned: memory.pinned,
+      expires_at: memory.expires_at,
+      language: memory.language,
+      access_count: memory.access_count,
+      last_accessed_at: memory.last_accessed_at,
+      links: links
+        .filter(link => link.source_id === memory.id || link.target_id === memory.id)
+        .map(link => linkFrom(link, memory.id))
+    }
+  };
+  if (explain) {
+    result.metadata.explanation = memory.explanation ?? null;
+  }
+  if (revisions) {
+    result.metadata.revisions = revisions.map(({ content, revised_at }) => ({ content, revised_at }));
+  }
+  return result;
+}
+
+function formatReadResult(
+  memory: SearchResult,
+  position: number,
+  options: { history: boolean; explain: boolean },
+  links: MemoryLink[] = [],
+  revisions: MemoryRevision[] = []
+): string {
+  let resultText = `Memory ${position} (ID: ${memory.id}):\n${memory.content}\nCreated: ${memory.created_at}`;
+
+  if (memory.updated_at) {
+    resultText += `\nUpdated: ${memory.updated_at}`;
+  }
+
+  if (memory.namespace) {
+    resultText += `\nNamespace: ${memory.namespace}`;
+  }
+  if (memory.pinned) {
+    resultText += '\nPinned: yes';
+  }
+  if (memory.importance !== DEFAULT_IMPORTANCE) {
+    resultText += `\nImportance: ${memory.importance}`;
+  }
+  if (memory.expires_at) {
+    resultText += `\nExpires: ${memory.expires_at}`;
+  }
+  if (memory.language) {
+    resultText += `\nLanguage: ${memory.language}`;
+  }
+  const memoryLinks = links.filter(link => link.source_id === memory.id || link.target_id === memory.id);
+  if (memoryLinks.length > 0) {
+    resultText += `\nLinks: ${memoryLinks.map(link => describeLink(link, memory.id)).join(', ')}`;
+  }
+  if (memory.tags.length > 0) {
+    resultText += `\nTags: ${memory.tags.join(', ')}`;
+  }
+  
+  // Add relevance information
+  if (memory.relevanceScore > 0) {
+    resultText += `\nRelevance: ${memory.relevanceScore} (${memory.matchType})`;
+  }
+
+  if (options.explain) {
+    resultText += `\n${explainScore(memory)}`;
+  }
+
+  if (options.history) {
+    resultText += revisions.length > 0
+      ? `\nRevision history (newest first):\n${revisions.map(revision => `  [${revision.revised_at}] ${revision.content}`).join('\n')}`
+      : '\nRevision history: none';
+  }
+
+  return resultText;
+}
+
+export async function handleWriteTool(
+  params: z.infer<typeof WriteToolSchema>, 
+  store: MemoryStore
 ) {
   try {
-    const { search, topr } = params;
-    
-    // Use semantic search engine
-    const searchResults = await searchEngine.searchMemories(search, topr);
-    
-    if (searchResults.length === 0) {
+    if (params.operations) {
+      return await writeBatch(params.operations, params.format, store);
+    }
+    return await writeMemory({ ...params, content: params.content!, sTool: params.sTool! }, params.format, store);
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{
+        type: "text" as const,
+        text: `Error processing memory operation: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+}
+
+// Runs the operations in order in one transaction. The first one that fails
+// rolls back every operation before it, and the rest are not run.
+async function writeBatch(operations: WriteOperation[], format: OutputFormat, store: MemoryStore) {
+  const outcomes: BatchOperationOutcome[] = operations.map(operation => ({
+    sTool: operation.sTool,
+    status: 'not_run',
+    message: '',
+    result: null
+  }));
+
+  let failed = -1;
+  try {
+    await store.db.batch(async () => {
+      for (const [index, operation] of operations.entries()) {
+        // Each operation is audited with its own arguments, not the whole batch
+        const result = await runAs({ arguments: operation }, () => writeMemory(operation, 'text', store)).catch(error => ({
+          isError: true,
+          content: [{ type: "text" as const, text: error instanceof Error ? error.message : 'Unknown error' }]
+        }));
+        outcomes[index].message = result.content[0].text;
+        if ('isError' in result) {
+          failed = index;
+          throw new Error(result.content[0].text);
+        }
+        outcomes[index].status = 'applied';
+        outcomes[index].result = result.structuredContent;
+      }
+    });
+  } catch (error) {
+    if (failed === -1) {
+      // The commit itself failed
+      failed = outcomes.findIndex(outcome => outcome.status === 'not_run');
+      if (failed === -1) {
+        failed = outcomes.length - 1;
+      }
+      outcomes[failed].message = error instanceof Error ? error.message : 'Unknown error';
+    }
+    for (const outcome of outcomes.slice(0, failed)) {
+      outcome.status = 'rolled_back';
+    }
+    outcomes[failed].status = 'failed';
+    outcomes[failed].result = null;
+  }
+
+  const committed = failed === -1;
+  const output: BatchWriteOutput = { committed, operations: outcomes };
+  const statusOf = (outcome: BatchOperationOutcome) => outcome.status.replace('_', ' ');
+  const lines = outcomes.map((outcome, index) =>
+    `${index + 1}. ${outcome.sTool} [${statusOf(outcome)}]${outcome.status === 'not_run' ? '' : `: ${outcome.message}`}`
+  );
+  const summary = committed
+    ? `Applied all ${outcomes.length} operations in one transaction:`
+    : `Nothing was saved: operation ${failed + 1} of ${outcomes.length} failed, so the whole batch was rolled back.`;
+  const compactLines = outcomes.map((outcome, index) =>
+    `${index + 1}. ${outcome.result ? compactWrite(outcome.result) : outcome.sTool}${outcome.status === 'applied' ? '' : ` ${statusOf(outcome)}`}`
+  );
+
+  return {
+    ...(committed ? {} : { isError: true }),
+    ...toolOutput(
+      format,
+      output,
+      `${summary}\n${lines.join('\n')}`,
+      `${committed ? 'committed' : `rolled back (operation ${failed + 1} failed)`}\n${compactLines.join('\n')}`
+    )
+  };
+}
+
+async function writeMemory(params: WriteOperation, format: OutputFormat, store: MemoryStore) {
+  const { db, searchEngine } = store;
+  const { content, sTool, id, query, confirm, tags, namespace, importance, pinned, language, links, unlink } = params;
+  const attributes = { importance, pinned, language, expires_at: expiryOf(params) };
+
+  // Check link targets up front so a bad link never leaves a half-done write
+  for (const link of links ?? []) {
+    if (sTool === 'UPDATE' && link.id === id) {
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: `Cannot link memory ${link.id} to itself.`
+        }]
+      };
+    }
+    if (!(await db.getMemory(link.id))) {
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: `Cannot link to memory ${link.id}: no memory with that ID exists.`
+        }]
+      };
+    }
+  }
+
+  if (sTool === 'NEW') {
+    const policy = params.on_duplicate ?? store.duplicates.policy;
+    // A memory that supersedes another is expected to resemble it
+    const superseded = (links ?? []).filter(link => link.relation === 'supersedes').map(link => link.id);
+    const duplicate = policy === 'allow' ? undefined : await store.duplicates.findMatch(content, namespace, superseded);
+    const duplicateNote = duplicate
+      ? `memory ID ${duplicate.id} (similarity: ${duplicate.relevanceScore}): "${preview(duplicate.content)}"`
+      : '';
+
+    if (duplicate && policy === 'reject') {
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: `Not saved: this looks like a duplicate of ${duplicateNote}. Use sTool="UPDATE" with id ${duplicate.id} to change that memory, or pass on_duplicate="allow" to save it anyway.`
+        }]
+      };
+    }
+
+    if (duplicate && policy === 'merge') {
+      // A link that fails now (say, the duplicate is one of the targets) undoes the merge
+      const linkNote = await db.batch(async () => {
+        await db.mergeMemory(duplicate.id, content, { tags, ...attributes });
+        return applyLinks(store, duplicate.id, links, unlink);
+      });
+      await indexMemory(store, duplicate.id, content);
+
+      const output: WriteOutput = {
+        action: 'merged',
+        id: duplicate.id,
+        duplicate: { id: duplicate.id, similarity: duplicate.relevanceScore }
+      };
+      return toolOutput(
+        format,
+        output,
+        `Merged into existing ${duplicateNote}. Memory ID ${duplicate.id} now holds the new text; the earlier text was kept as a revision.${linkNote}`,
+        compactWrite(output)
+      );
+    }
+
+    const { newId, linkNote } = await db.batch(async () => {
+      const newId = await db.addMemory(content, { tags, namespace, ...attributes });
+      return { newId, linkNote: await applyLinks(store, newId, links, unlink) };
+    });
+    await indexMemory(store, newId, content);
+
+    const output: WriteOutput = {
+      action: 'created',
+      id: newId,
+      ...(duplicate ? { duplicate: { id: duplicate.id, similarity: duplicate.relevanceScore } } : {})
+    };
+    return toolOutput(
+      format,
+      output,
+      duplicate
+        ? `Memory successfully saved with ID: ${newId}. Possible duplicate of ${duplicateNote}${linkNote && '.'}${linkNote}`
+        : `Memory successfully saved with ID: ${newId}${linkNote && '.'}${linkNote}`,
+      compactWrite(output)
+    );
+  } 
+  
+  if (sTool === 'UPDATE') {
+    let targetId = id;
+    let matchNote = '';
+
+    if (!targetId) {
+      // Find the memory being corrected; without a query the new text itself is the best probe
+      const searchResults = await searchEngine.searchMemories(query ?? plainQuery(content), 1);
+
+      if (searchResults.length === 0) {
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `No memory found matching "${query ?? content}". Please provide a more specific query or the exact memory ID.`
+          }]
+        };
+      }
+
+      targetId = searchResults[0].id;
+      matchNote = ` (matched by search, relevance: ${searchResults[0].relevanceScore}; previous text: "${preview(searchResults[0].content)}")`;
+    }
+
+    // The update and its links commit together, so a link that fails (say, to
+    // the memory a search matched) leaves the memory as it was
+    const updateId = targetId;
+    const linkNote = await db.batch(async () => {
+      if (!(await db.updateMemory(updateId, content, attributes))) {
+        return undefined;
+      }
+      return applyLinks(store, updateId, links, unlink);
+    });
+    if (linkNote === undefined) {
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: `No memory found with ID ${targetId}. The memory may have been deleted.`
+        }]
+      };
+    }
+    await indexMemory(store, targetId, content);
+
+    const output: WriteOutput = { action: 'updated', id: targetId };
+    return toolOutput(
+      format,
+      output,
+      `Memory with ID ${targetId} has been updated${matchNote}. The earlier text was kept as a revision.${linkNote}`,
+      compactWrite(output)
+    );
+  }
+  
+  if (sTool === 'DELETE') {
+    if (confirm) {
+      const pending = pendingDeletes.get(confirm);
+      if (!pending || pending.store !== store.name || pending.expiresAt < Date.now()) {
+        pendingDeletes.delete(confirm);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Confirmation token "${confirm}" is invalid or has expired. Run DELETE with the search query again to get a new one.`
+          }]
+        };
+      }
+
+      const targetId = id ?? pending.candidateIds[0];
+      if (!pending.candidateIds.includes(targetId)) {
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Memory ID ${targetId} was not one of the candidates for this token (${pending.candidateIds.join(', ')}).`
+          }]
+        };
+      }
+
+      pendingDeletes.delete(confirm);
+      return trashMemory(store, targetId, format);
+    }
+
+    if (id) {
+      return trashMemory(store, id, format);
+    }
+
+    // Deleting by query only previews: a vague query must never remove the wrong memory.
+    // The content is free text like a NEW memory's, so quotes or a stray "-" are not syntax.
+    const candidates = await searchEngine.searchMemories(plainQuery(content), DELETE_CANDIDATE_LIMIT);
+
+    if (candidates.length === 0) {
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: `No memory found matching "${content}". Please provide a more specific search term or the exact memory ID.`
+        }]
+      };
+    }
+
+    for (const [staleToken, pending] of pendingDeletes) {
+      if (pending.expiresAt < Date.now()) {
+        pendingDeletes.delete(staleToken);
+      }
+    }
+
+    const token = randomBytes(4).toString('hex');
+    pendingDeletes.set(token, {
+      store: store.name,
+      candidateIds: candidates.map(candidate => candidate.id),
+      expiresAt: Date.now() + CONFIRMATION_TTL_MS
+    });
+
+    const candidatesText = candidates.map((candidate, index) =>
+      `${index + 1}. ID ${candidate.id} (relevance: ${candidate.relevanceScore}): "${preview(candidate.content)}"`
+    ).join('\n');
+
+    const output: WriteOutput = {
+      action: 'confirm_delete',
+      id: null,
+      confirm: token,
+      candidates: candidates.map(({ id, content, relevanceScore }) => ({ id, content, relevanceScore }))
+    };
+    return toolOutput(
+      format,
+      output,
+      `Nothing has been deleted yet. Found ${candidates.length} candidate memories for "${content}":\n\n${candidatesText}\n\nTo delete the best match, call write with sTool="DELETE" and confirm="${token}". To delete a different candidate, also pass its id. The token expires in ${CONFIRMATION_TTL_MS / 60000} minutes.`,
+      compactWrite(output)
+    );
+  }
+
+  if (sTool === 'UNDELETE') {
+    if (!id) {
+      const trash = await db.listTrash(TRASH_LIST_LIMIT);
+      const output: WriteOutput = {
+        action: 'list_trash',
+        id: null,
+        trash: trash.map(({ id, content, deleted_at }) => ({ id, content, deleted_at }))
+      };
+      if (trash.length === 0) {
+        return toolOutput(format, output, 'The trash is empty. There is nothing to restore.', compactWrite(output));
+      }
+
+      const trashText = trash.map(memory =>
+        `- ID ${memory.id} (deleted ${memory.deleted_at}): "${preview(memory.content)}"`
+      ).join('\n');
+
+      return toolOutput(
+        format,
+        output,
+        `Recently deleted memories:\n${trashText}\n\nCall write with sTool="UNDELETE" and the id to restore one.`,
+        compactWrite(output)
+      );
+    }
+
+    const restored = await db.restoreMemory(id);
+    if (!restored) {
       return {
+        isError: true,
         content: [{
           type: "text" as const,
-          text: `No memories found matching "${search}". Try different search terms or add new memories first.`
+          text: `No deleted memory found with ID ${id}. It may never have been deleted, or it was already purged from the trash.`
         }]
       };
     }
 
-    const resultsText = searchResults.map((memory, index) => {
-      let resultText = `Memory ${index + 1} (ID: ${memory.id}):\n${memory.content}\nCreated: ${memory.created_at}`;
-      
-      // Add relevance information
-      if (memory.relevanceScore > 0) {
-        resultText += `\nRelevance: ${memory.relevanceScore} (${memory.matchType})`;
+    const output: WriteOutput = { action: 'restored', id };
+    return toolOutput(format, output, `Memory with ID ${id} has been restored.`, compactWrite(output));
+  }
+
+  return {
+    isError: true,
+    content: [{
+      type: "text" as const,
+      text: 'Invalid sTool value. Must be "NEW", "UPDATE", "DELETE" or "UNDELETE".'
+    }]
+  };
+}
+
+// Files named by a client stay inside transferDir, and an export never
+// overwrites one
+export async function handleExportTool(params: z.infer<typeof ExportToolSchema>, store: MemoryStore, transferDir: string) {
+  try {
+    const { path } = params;
+    const format = params.format ?? (path ? detectFormat(path) : undefined) ?? 'json';
+    const data = await exportMemories(store.db, format);
+
+    if (path) {
+      const file = await transferPath(transferDir, path, false);
+      try {
+        await writeFile(file, data, { encoding: 'utf8', flag: 'wx' });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          throw new Error(`${file} already exists; choose a new file name`);
+        }
+        throw error;
       }
-      
-      return resultText;
-    }).join('\n---\n\n');
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Exported memories to ${file} (${format}).`
+        }]
+      };
+    }
 
     return {
       content: [{
         type: "text" as const,
-        text: `Found ${searchResults.length} relevant memories (semantic search):\n\n${resultsText}`
+        text: data
       }]
     };
   } catch (error) {
@@ -56,89 +1127,92 @@ export async function handleReadTool(
       isError: true,
       content: [{
         type: "text" as const,
-        text: `Error searching memories: ${error instanceof Error ? error.message : 'Unknown error'}`
+        text: `Error exporting memories: ${error instanceof Error ? error.message : 'Unknown error'}`
       }]
     };
   }
 }
 
-export async function handleWriteTool(
-  params: z.infer<typeof WriteToolSchema>, 
-  searchEngine: FastSemanticSearch
-) {
+export async function handleImportTool(params: z.infer<typeof ImportToolSchema>, store: MemoryStore, transferDir: string) {
   try {
-    const { content, sTool, id } = params;
+    const { data, path, mode } = params;
+    const format = params.format ?? (path ? detectFormat(path) : undefined) ?? 'json';
+    const raw = path ? await readFile(await transferPath(transferDir, path, true), 'utf8') : data!;
+
+    const report = await importMemories(store.db, parseExport(raw, format), mode);
 
-    if (sTool === 'NEW') {
-      const newId = await db.addMemory(content);
-      
+    return {
+      content: [{
+        type: "text" as const,
+        text: formatImportReport(report)
+      }]
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{
+        type: "text" as const,
+        text: `Error importing memories: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+}
+
+export async function handleDuplicatesTool(params: z.infer<typeof DuplicatesToolSchema>, store: MemoryStore) {
+  try {
+    const { threshold, namespace, tags } = params;
+    const groups = await store.duplicates.findGroups({ namespace, tags }, threshold);
+
+    if (groups.length === 0) {
       return {
         content: [{
           type: "text" as const,
-          text: `Memory successfully saved with ID: ${newId}`
+          text: 'No duplicate memories found.'
         }]
       };
-    } 
-    
-    if (sTool === 'DELETE') {
-      if (id) {
-        const deleted = await db.deleteMemory(id);
-        if (deleted) {
-          return {
-            content: [{
-              type: "text" as const,
-              text: `Memory with ID ${id} has been deleted successfully.`
-            }]
-          };
-        } else {
-          return {
-            isError: true,
-            content: [{
-              type: "text" as const,
-              text: `No memory found with ID ${id}. The memory may have already been deleted.`
-            }]
-          };
-        }
-      } else {
-        // Use semantic search to find memory to delete
-        const searchResults = await searchEngine.searchMemories(content, 1);
-        
-        if (searchResults.length === 0) {
-          return {
-            isError: true,
-            content: [{
-              type: "text" as const,
-              text: `No memory found matching "${content}". Please provide a more specific search term or the exact memory ID.`
-            }]
-          };
-        }
+    }
 
-        const memoryToDelete = searchResults[0];
-        const deleted = await db.deleteMemory(memoryToDelete.id);
-        if (deleted) {
-          return {
-            content: [{
-              type: "text" as const,
-              text: `Found and deleted memory (ID: ${memoryToDelete.id}, relevance: ${memoryToDelete.relevanceScore}):\n"${memoryToDelete.content.substring(0, 100)}${memoryToDelete.content.length > 100 ? '...' : ''}"`
-            }]
-          };
-        } else {
-          return {
-            isError: true,
-            content: [{
-              type: "text" as const,
-              text: `Failed to delete memory with ID ${memoryToDelete.id}. Please try again.`
-            }]
-          };
-        }
+    const groupsText = groups.map((group, index) => {
+      const lines = [`Group ${index + 1}:`, `  Original ID ${group.original.id}: ${preview(group.original.content)}`];
+      for (const duplicate of group.duplicates) {
+        lines.push(`  Duplicate ID ${duplicate.id} (similarity: ${duplicate.relevanceScore}): ${preview(duplicate.content)}`);
       }
-    }
+      return lines.join('\n');
+    }).join('\n\n');
+
+    const duplicateCount = groups.reduce((count, group) => count + group.duplicates.length, 0);
 
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Found ${duplicateCount} duplicate memories in ${groups.length} groups:\n\n${groupsText}\n\nTo clean up, move duplicates to the trash with write sTool="DELETE" and their id, or fold their wording into the original with sTool="UPDATE".`
+      }]
+    };
+  } catch (error) {
     return {
       isError: true,
       content: [{
         type: "text" as const,
-        text: 'Invalid sTool value. Must be "NEW" or "DELETE".'
+        text: `Error finding duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+}
+
+// Memories considered for a digest; beyond this the oldest are left out
+const DIGEST_SCAN_LIMIT = 10000;
+
+export async function handleDigestTool(params: z.infer<typeof DigestToolSchema>, store: MemoryStore) {
+  try {
+    const { max_tokens, namespace, tags } = params;
+    const memories = await store.db.listMemories(DIGEST_SCAN_LIMIT, { namespace, tags });
+    const scope = [namespace && `namespace ${namespace}`, tags && `tags ${tags.join(', ')}`].filter(Boolean).join('; ');
+    const digest = buildDigest(memories, max_tokens, `Memory digest${scope ? ` (${scope})` : ''}`);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: `${digest.text}\n\n(~${digest.tokens} of ${max_tokens} tokens: ${digest.full} in full, ${digest.titles} as titles, ${digest.counted} counted)`
       }]
     };
   } catch (error) {
@@ -146,8 +1220,112 @@ export async function handleWriteTool(
       isError: true,
       content: [{
         type: "text" as const,
-        text: `Error processing memory operation: ${error instanceof Error ? error.message : 'Unknown error'}`
+        text: `Error building digest: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+}
+
+function auditPreview(label: string, content: string | null): string[] {
+  if (content === null) {
+    return [];
+  }
+  const text = content.replace(/\s+/g, ' ').trim();
+  return [`   ${label}: ${text.length > AUDIT_PREVIEW_CHARS ? `${text.slice(0, AUDIT_PREVIEW_CHARS)}...` : text}`];
+}
+
+function formatAuditEntry(entry: AuditEntry): string {
+  const subject = entry.related_id === null
+    ? `memory ${entry.memory_id}`
+    : `memory ${entry.memory_id} ${entry.operation === 'linked' ? '->' : '-/->'} ${entry.related_id} (${entry.detail})`;
+  const client = entry.client_name ? `${entry.client_name}${entry.client_version ? ` ${entry.client_version}` : ''}` : 'inked';
+  const lines = [`#${entry.id} [${entry.occurred_at}] ${entry.operation} ${subject} by ${client}${entry.tool ? ` via ${entry.tool}` : ''}`];
+  if (entry.arguments !== null) {
+    const args = typeof entry.arguments === 'string' ? entry.arguments : JSON.stringify(entry.arguments);
+    lines.push(`   Arguments: ${args.length > AUDIT_PREVIEW_CHARS ? `${args.slice(0, AUDIT_PREVIEW_CHARS)}...` : args}`);
+  }
+  lines.push(...auditPreview('Before', entry.before_content), ...auditPreview('After', entry.after_content));
+  return lines.join('\n');
+}
+
+export async function handleAuditTool(params: z.infer<typeof AuditToolSchema>, store: MemoryStore) {
+  try {
+    const entries = await store.db.getAuditLog(params);
+    const scope = params.memory_id === undefined ? '' : ` for memory ${params.memory_id}`;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: entries.length === 0
+          ? `No audit log entries${scope} match.`
+          : `${entries.length} audit log entries${scope}, newest first:\n\n${entries.map(formatAuditEntry).join('\n\n')}`
+      }]
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{
+        type: "text" as const,
+        text: `Error reading audit log: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+}
+
+export async function handleVocabularyTool(params: z.infer<typeof VocabularyToolSchema>, store: MemoryStore) {
+  try {
+    const { db } = store;
+    const { action, terms = [], group } = params;
+    const language = params.language ?? DEFAULT_LANGUAGE;
+    let text: string;
+
+    switch (action) {
+      case 'list': {
+        const vocabulary = await db.getVocabulary();
+        const groupLines = vocabulary.synonymGroups.map(({ id, terms }) => `  Group ${id}: ${terms.join(', ')}`);
+        const stopWordLines = LANGUAGES.map(code =>
+          `  ${code} (${vocabulary.stopWords[code]?.length ?? 0}): ${(vocabulary.stopWords[code] ?? []).join(', ') || '(none)'}`
+        );
+        text = `Synonym groups (${groupLines.length}):\n${groupLines.join('\n') || '  (none)'}\n\nStop words:\n${stopWordLines.join('\n')}`;
+        break;
+      }
+      case 'add_synonyms': {
+        const groupId = await db.addSynonyms(terms, group);
+        text = `Synonym group ${groupId} ${group === undefined ? 'created' : 'updated'}: ${terms.join(', ')}`;
+        break;
+      }
+      case 'remove_synonyms': {
+        const removed = await db.removeSynonyms(group!, params.terms);
+        text = removed === 0
+          ? `Nothing removed: synonym group ${group} ${params.terms ? 'has none of those terms' : 'does not exist'}.`
+          : `Removed ${removed} terms from synonym group ${group}.`;
+        break;
+      }
+      case 'add_stop_words': {
+        const added = await db.addStopWords(language, terms);
+        text = `Added ${added} ${language} stop words (${terms.length - added} already present).`;
+        break;
+      }
+      case 'remove_stop_words': {
+        const removed = await db.removeStopWords(language, terms);
+        text = `Removed ${removed} ${language} stop words.`;
+        break;
+      }
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text
+      }]
+    };
+  } catch (error) {
+    return {
+      isError: true,
+      content: [{
+        type: "text" as const,
+        text: `Error updating vocabulary: ${error instanceof Error ? error.message : 'Unknown error'}`
       }]
     };
   }
-}
\ No newline at end of file
+}
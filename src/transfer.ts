@@ -0,0 +1,335 @@
+import { createHash } from 'crypto';
+import { mkdir, realpath } from 'fs/promises';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve } from 'path';
+import { z } from 'zod';
+import { DEFAULT_IMPORTANCE, toSqlTimestamp } from './database.js';
+import type { ImportedMemory, Memory, MemoryLink } from './database.js';
+
+export type TransferFormat = 'json' | 'jsonl' | 'markdown';
+export type ImportMode = 'merge' | 'replace';
+
+export interface SkippedRecord {
+  // Position of the record in the import file (1-based)
+  index: number;
+  reason: string;
+  preview: string;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  total: number;
+  imported: number;
+  // Records whose original id was already taken and got a new one
+  renumbered: number;
+  skipped: SkippedRecord[];
+}
+
+// Minimal DatabaseManager surface needed for transfers
+interface TransferStore {
+  getAllMemories(): Promise<Memory[]>;
+  getAllLinks(): Promise<MemoryLink[]>;
+  importMemories(records: ImportedMemory[], replace: boolean): Promise<number[]>;
+}
+
+// Dates are stored in SQLite's own format so they compare and sort with the
+// ones it writes; a record with an unreadable date is skipped
+const timestamp = z.string().transform((value, context) => {
+  try {
+    return toSqlTimestamp(value);
+  } catch (error) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'invalid date' });
+    return z.NEVER;
+  }
+});
+
+const ImportRecordSchema = z.object({
+  id: z.number().int().positive().optional(),
+  content: z.string().min(1, 'must not be empty'),
+  created_at: timestamp.optional(),
+  updated_at: timestamp.nullable().optional(),
+  namespace: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  links: z.array(z.object({
+    id: z.number().int().positive(),
+    relation: z.enum(['relates_to', 'supersedes', 'contradicts', 'part_of'])
+  })).optional(),
+  importance: z.number().int().min(1).max(5).optional(),
+  pinned: z.boolean().optional(),
+  expires_at: timestamp.nullable().optional(),
+  language: z.enum(['en', 'de']).nullable().optional()
+});
+
+const EXPORT_VERSION = 1;
+
+export function detectFormat(path: string): TransferFormat | undefined {
+  switch (extname(path).toLowerCase()) {
+    case '.json': return 'json';
+    case '.jsonl':
+    case '.ndjson': return 'jsonl';
+    case '.md':
+    case '.markdown': return 'markdown';
+    default: return undefined;
+  }
+}
+
+// Resolves a path given to the export or import tool inside dir, the only
+// place those tools touch, following symlinks so none leads out of it.
+// Relative paths are taken from dir. An import's file must already exist.
+export async function transferPath(dir: string, path: string, existing: boolean): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const root = await realpath(dir);
+  const target = resolve(root, path);
+  let resolved: string;
+  try {
+    resolved = existing ? await realpath(target) : join(await realpath(dirname(target)), basename(target));
+  } catch {
+    throw new Error(`${path} does not exist in ${root}`);
+  }
+  const inside = relative(root, resolved);
+  if (!inside || inside.startsWith('..') || isAbsolute(inside)) {
+    throw new Error(`${path} is outside ${root}; export and import files must be in that directory`);
+  }
+  return resolved;
+}
+
+// Hash used to recognise the same memory across stores; whitespace-insensitive
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content.trim().replace(/\s+/g, ' ')).digest('hex');
+}
+
+// Exported memories carry their outgoing links
+type ExportedMemory = Memory & { links?: { id: number; relation: MemoryLink['relation'] }[] };
+
+export async function exportMemories(store: TransferStore, format: TransferFormat): Promise<string> {
+  const links = await store.getAllLinks();
+  const memories: ExportedMemory[] = (await store.getAllMemories()).map(memory => {
+    const outgoing = links
+      .filter(link => link.source_id === memory.id)
+      .map(link => ({ id: link.target_id, relation: link.relation }));
+    return outgoing.length > 0 ? { ...memory, links: outgoing } : memory;
+  });
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify({
+        version: EXPORT_VERSION,
+        exported_at: new Date().toISOString(),
+        memories
+      }, null, 2) + '\n';
+
+    case 'jsonl':
+      return memories.map(memory => JSON.stringify(memory)).join('\n') + (memories.length > 0 ? '\n' : '');
+
+    case 'markdown':
+      return toMarkdown(memories);
+  }
+}
+
+// Content goes in a fenced block longer than any run of backticks in it, and
+// namespace and tags are JSON, so any text survives a re-import
+function toMarkdown(memories: ExportedMemory[]): string {
+  const sections = memories.map(memory => {
+    const fields = [`- Created: ${memory.created_at}`];
+    if (memory.updated_at) fields.push(`- Updated: ${memory.updated_at}`);
+    if (memory.namespace) fields.push(`- Namespace: ${JSON.stringify(memory.namespace)}`);
+    if (memory.tags.length > 0) fields.push(`- Tags: ${JSON.stringify(memory.tags)}`);
+    if (memory.importance !== DEFAULT_IMPORTANCE) fields.push(`- Importance: ${memory.importance}`);
+    if (memory.pinned) fields.push('- Pinned: yes');
+    if (memory.expires_at) fields.push(`- Expires: ${memory.expires_at}`);
+    if (memory.language) fields.push(`- Language: ${memory.language}`);
+    if (memory.links) fields.push(`- Links: ${memory.links.map(link => `${link.relation} ${link.id}`).join(', ')}`);
+
+    const longestRun = Math.max(0, ...(memory.content.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `## Memory ${memory.id}\n\n${fields.join('\n')}\n\n${fence}\n${memory.content}\n${fence}\n`;
+  });
+
+  return `# Inked memories\n\nExported ${new Date().toISOString()} (${memories.length} memories)\n\n${sections.join('\n')}`;
+}
+
+// Parses an export back into raw records; validation happens in importMemories
+export function parseExport(data: string, format: TransferFormat): unknown[] {
+  switch (format) {
+    case 'json': {
+      const parsed = JSON.parse(data);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+      if (parsed && Array.isArray(parsed.memories)) {
+        return parsed.memories;
+      }
+      throw new Error('JSON import must be an array of memories or an object with a "memories" array');
+    }
+
+    case 'jsonl':
+      return data
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .map((line, index) => {
+          try {
+            return JSON.parse(line);
+          } catch (error) {
+            throw new Error(`Invalid JSON on line ${index + 1}: ${error instanceof Error ? error.message : 'parse error'}`);
+          }
+        });
+
+    case 'markdown':
+      return fromMarkdown(data);
+  }
+}
+
+const MEMORY_HEADING = /^## Memory (\d+)\s*$/;
+
+// Namespace and tags are JSON since the content was fenced; older exports
+// wrote them (and the content) as plain text
+function fromMarkdown(data: string): unknown[] {
+  const lines = data.split('\n');
+  const records: unknown[] = [];
+
+  let line = 0;
+  while (line < lines.length) {
+    const heading = MEMORY_HEADING.exec(lines[line++]);
+    if (!heading) continue;
+    const record: Record<string, unknown> = { id: Number(heading[1]) };
+
+    while (line < lines.length && lines[line].trim() === '') line++;
+    for (; line < lines.length; line++) {
+      const field = lines[line].match(/^- (Created|Updated|Namespace|Tags|Importance|Pinned|Expires|Language|Links): (.*?)\r?$/);
+      if (!field) break;
+
+      const [, key, value] = field;
+      if (key === 'Created') record.created_at = value;
+      if (key === 'Updated') record.updated_at = value;
+      if (key === 'Namespace') record.namespace = value.startsWith('"') ? parseJsonField(key, value) : value;
+      if (key === 'Tags') record.tags = value.startsWith('[') ? parseJsonField(key, value) : value.split(',').map(tag => tag.trim());
+      if (key === 'Importance') record.importance = Number(value);
+      if (key === 'Pinned') record.pinned = value === 'yes';
+      if (key === 'Expires') record.expires_at = value;
+      if (key === 'Language') record.language = value;
+      if (key === 'Links') {
+        record.links = value.split(',').map(link => {
+          const [relation, id] = link.trim().split(/\s+/);
+          return { relation, id: Number(id) };
+        });
+      }
+    }
+
+    while (line < lines.length && lines[line].trim() === '') line++;
+    // A fence that closes before the next memory holds the whole content
+    const fence = lines[line]?.match(/^(`{3,})\s*$/)?.[1];
+    const close = fence ? closingFence(lines, line + 1, fence) : -1;
+    if (close !== -1) {
+      record.content = lines.slice(line + 1, close).join('\n');
+      line = close + 1;
+    } else {
+      const start = line;
+      while (line < lines.length && !MEMORY_HEADING.test(lines[line])) line++;
+      record.content = lines.slice(start, line).join('\n').trim();
+    }
+    records.push(record);
+  }
+
+  return records;
+}
+
+// Index of the line closing fence, if only blank lines follow it up to the
+// next memory or the end; -1 otherwise
+function closingFence(lines: string[], from: number, fence: string): number {
+  for (let index = from; index < lines.length; index++) {
+    if (lines[index].trimEnd() !== fence) continue;
+    let next = index + 1;
+    while (next < lines.length && lines[next].trim() === '') next++;
+    if (next === lines.length || MEMORY_HEADING.test(lines[next])) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function parseJsonField(key: string, value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`Invalid ${key} value in Markdown import: ${value}`);
+  }
+}
+
+export async function importMemories(
+  store: TransferStore,
+  rawRecords: unknown[],
+  mode: ImportMode
+): Promise<ImportReport> {
+  const skipped: SkippedRecord[] = [];
+  const seen = new Set<string>();
+
+  // In merge mode anything already stored counts as a duplicate
+  if (mode === 'merge') {
+    for (const memory of await store.getAllMemories()) {
+      seen.add(contentHash(memory.content));
+    }
+  }
+
+  const records: ImportedMemory[] = [];
+  rawRecords.forEach((raw, position) => {
+    const index = position + 1;
+    const parsed = ImportRecordSchema.safeParse(raw);
+
+    if (!parsed.success) {
+      skipped.push({
+        index,
+        reason: `invalid record: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`).join('; ')}`,
+        preview: previewOf(raw)
+      });
+      return;
+    }
+
+    const hash = contentHash(parsed.data.content);
+    if (seen.has(hash)) {
+      skipped.push({ index, reason: 'duplicate content', preview: previewOf(parsed.data) });
+      return;
+    }
+    seen.add(hash);
+
+    records.push({
+      ...parsed.data,
+      namespace: parsed.data.namespace ?? undefined
+    });
+  });
+
+  const ids = await store.importMemories(records, mode === 'replace');
+
+  return {
+    mode,
+    total: rawRecords.length,
+    imported: ids.length,
+    renumbered: ids.filter((id, i) => records[i].id !== undefined && records[i].id !== id).length,
+    skipped
+  };
+}
+
+export function formatImportReport(report: ImportReport): string {
+  const lines = [
+    `Imported ${report.imported} of ${report.total} memories (${report.mode} mode).`
+  ];
+
+  if (report.renumbered > 0) {
+    lines.push(`${report.renumbered} memories were given new IDs because their original ID was already in use.`);
+  }
+
+  if (report.skipped.length > 0) {
+    lines.push(`Skipped ${report.skipped.length}:`);
+    for (const skip of report.skipped) {
+      lines.push(`  #${skip.index} (${skip.reason}): "${skip.preview}"`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function previewOf(raw: unknown): string {
+  const content = raw && typeof raw === 'object' && 'content' in raw && typeof raw.content === 'string'
+    ? raw.content
+    : JSON.stringify(raw) ?? String(raw);
+  return content.length > 60 ? `${content.substring(0, 60)}...` : content;
+}
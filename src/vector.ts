@@ -0,0 +1,123 @@
+import type { DatabaseManager, Memory, MemoryFilters } from './database.js';
+import type { FastSemanticSearch, SearchResult, SemanticMatcher } from './search.js';
+import { parseQuery, isPlainQuery, positiveWords, scopeFilters } from './query.js';
+import { Embedder, cosineSimilarity } from './embeddings.js';
+
+// Semantic search over per-memory embedding vectors stored in SQLite
+class VectorSearch implements SemanticMatcher {
+  // Results below this cosine similarity are treated as unrelated
+  private readonly minSimilarity = 0.25;
+
+  // Memories embedded per model call while backfilling
+  private readonly batchSize = 32;
+
+  private syncing: Promise<void> | null = null;
+  private stopped = false;
+
+  // The text matcher applies a query's phrases, exclusions and fields. A
+  // read-only instance never writes vectors: memories without one are left
+  // to the text matcher.
+  constructor(
+    private db: DatabaseManager,
+    private embedder: Embedder,
+    private textSearch: FastSemanticSearch,
+    private readOnly = false
+  ) {}
+
+  async searchMemories(query: string, limit: number = 3, filters: MemoryFilters = {}): Promise<SearchResult[]> {
+    // Handle "ALL" special case
+    if (query.toUpperCase() === 'ALL') {
+      const memories: Memory[] = await this.db.listMemories(limit, filters);
+      return memories.map(memory => ({ ...memory, relevanceScore: 1.0, matchType: 'all' }));
+    }
+
+    // Only the words are embedded; the rest of the query filters
+    const parsed = parseQuery(query);
+    const { words, prefixes } = positiveWords(parsed);
+    if (words.length === 0 && prefixes.length === 0) {
+      // Nothing to compare meanings with, e.g. tag:work on its own
+      return this.textSearch.searchMemories(query, limit, filters);
+    }
+
+    // Memories still lacking a vector are left to the text matcher while a
+    // backfill embeds them, so a search never waits on it. Inside a batch
+    // the backfill would wait for the batch's own write lock, so none starts.
+    if (!this.db.inTransaction) {
+      this.backfillInBackground();
+    }
+
+    let queryVector: Float32Array;
+    try {
+      [queryVector] = await this.embedder.embed([isPlainQuery(parsed) ? query : [...words, ...prefixes].join(' ')]);
+    } catch (error) {
+      console.error('Failed to embed the query, using text search:', error instanceof Error ? error.message : error);
+      return this.textSearch.searchMemories(query, limit, filters);
+    }
+    const candidates = await this.textSearch.filterByQuery(
+      parsed,
+      await this.db.getEmbeddedMemories(this.embedder.id, scopeFilters(filters, parsed))
+    );
+
+    return candidates
+      .map(({ vector, ...memory }) => ({
+        ...memory,
+        relevanceScore: Math.round(cosineSimilarity(queryVector, vector) * 100) / 100,
+        matchType: 'vector'
+      }))
+      .filter(result => result.relevanceScore >= this.minSimilarity)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, limit);
+  }
+
+  // Embeds a freshly written memory right away instead of on the next search
+  async indexMemory(id: number, content: string): Promise<void> {
+    if (this.readOnly) {
+      return;
+    }
+    const [vector] = await this.embedder.embed([content]);
+    await this.db.saveEmbedding(id, this.embedder.id, vector);
+  }
+
+  // Backfills vectors for every memory that lacks one for the current model.
+  // Concurrent callers share a single pass.
+  sync(): Promise<void> {
+    if (!this.syncing && !this.stopped && !this.readOnly) {
+      this.syncing = this.backfill().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing ?? Promise.resolve();
+  }
+
+  private backfillInBackground(): void {
+    if (this.syncing || this.stopped || this.readOnly) {
+      return;
+    }
+    this.sync().catch(error => {
+      console.error('Failed to compute embeddings:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  // Ends a running backfill after its current chunk and starts no more, so
+  // the database can be closed
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.syncing?.catch(() => {});
+  }
+
+  private async backfill(): Promise<void> {
+    while (!this.stopped) {
+      const pending = await this.db.getUnembeddedMemories(this.embedder.id, this.batchSize);
+      if (pending.length === 0) {
+        return;
+      }
+
+      const vectors = await this.embedder.embed(pending.map(memory => memory.content));
+      for (let i = 0; i < pending.length; i++) {
+        await this.db.saveEmbedding(pending[i].id, this.embedder.id, vectors[i]);
+      }
+    }
+  }
+}
+
+export { VectorSearch };
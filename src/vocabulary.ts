@@ -0,0 +1,52 @@
+import type { Language } from './stemmers.js';
+
+// Seed data for a new store's search vocabulary. Once a store exists its
+// synonyms and stop words live in the database and are edited with the
+// vocabulary tool; changing these lists only affects new stores.
+
+export const DEFAULT_SYNONYM_GROUPS: string[][] = [
+  ['preferences', 'settings', 'config', 'options', 'choices'],
+  ['settings', 'preferences', 'config', 'options', 'configuration'],
+  ['project', 'work', 'task', 'assignment', 'job'],
+  ['user', 'person', 'client', 'individual'],
+  ['likes', 'enjoys', 'prefers', 'loves', 'favors'],
+  ['dislikes', 'hates', 'avoids', 'rejects', 'opposes'],
+  ['wants', 'needs', 'requires', 'desires', 'seeks'],
+  ['important', 'crucial', 'vital', 'essential', 'critical'],
+  ['problem', 'issue', 'bug', 'error', 'trouble'],
+  ['solution', 'fix', 'answer', 'resolution', 'remedy'],
+  ['fast', 'quick', 'rapid', 'speedy', 'swift'],
+  ['slow', 'sluggish', 'delayed', 'gradual'],
+  ['good', 'great', 'excellent', 'positive', 'beneficial'],
+  ['bad', 'poor', 'negative', 'terrible', 'awful'],
+];
+
+export const DEFAULT_STOP_WORDS: Record<Language, string[]> = {
+  en: [
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
+    'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
+    'to', 'was', 'will', 'with', 'this', 'but', 'they', 'have',
+    'had', 'what', 'said', 'each', 'which', 'do', 'how', 'their', 'if',
+    'up', 'out', 'many', 'then', 'them', 'these', 'so', 'some', 'her',
+    'would', 'make', 'like', 'into', 'him', 'time', 'two', 'more',
+    'go', 'no', 'way', 'could', 'my', 'than', 'first', 'been', 'call',
+    'who', 'oil', 'sit', 'now', 'find', 'down', 'day', 'did', 'get',
+    'may', 'new', 'try', 'came', 'show', 'every', 'should', 'thought'
+  ],
+  de: [
+    'aber', 'alle', 'allem', 'allen', 'aller', 'alles', 'als', 'also', 'am', 'an',
+    'ander', 'andere', 'anderem', 'anderen', 'anderer', 'anderes', 'auch', 'auf', 'aus', 'bei',
+    'bin', 'bis', 'bist', 'da', 'damit', 'dann', 'das', 'dass', 'dein', 'deine',
+    'dem', 'den', 'denn', 'der', 'des', 'dich', 'die', 'dies', 'diese', 'diesem',
+    'diesen', 'dieser', 'dieses', 'dir', 'doch', 'dort', 'du', 'durch', 'ein', 'eine',
+    'einem', 'einen', 'einer', 'eines', 'er', 'es', 'euer', 'eure', 'für', 'gegen',
+    'hab', 'habe', 'haben', 'hat', 'hatte', 'hier', 'hin', 'hinter', 'ich', 'ihm',
+    'ihn', 'ihnen', 'ihr', 'ihre', 'im', 'in', 'indem', 'ins', 'ist', 'jede',
+    'jedem', 'jeden', 'jeder', 'jedes', 'jetzt', 'kann', 'kein', 'keine', 'mein', 'meine',
+    'mich', 'mir', 'mit', 'muss', 'nach', 'nicht', 'nichts', 'noch', 'nun', 'nur',
+    'ob', 'oder', 'ohne', 'sehr', 'sein', 'seine', 'sich', 'sie', 'sind', 'so',
+    'solche', 'soll', 'sondern', 'um', 'und', 'uns', 'unser', 'unter', 'viel', 'vom',
+    'von', 'vor', 'war', 'waren', 'warum', 'was', 'weil', 'welche', 'wenn', 'werde',
+    'werden', 'wie', 'wieder', 'will', 'wir', 'wird', 'wo', 'zu', 'zum', 'zur', 'über'
+  ],
+};
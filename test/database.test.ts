@@ -0,0 +1,113 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseManager, IN_MEMORY_DB } from '../src/database.js';
+import type { MemoryChange } from '../src/database.js';
+import { runAs } from '../src/audit.js';
+
+describe('DatabaseManager in memory', () => {
+  let db: DatabaseManager;
+  let changes: MemoryChange[];
+
+  beforeEach(async () => {
+    db = new DatabaseManager(IN_MEMORY_DB);
+    await db.initialize();
+    changes = [];
+    db.on('change', (change: MemoryChange) => changes.push(change));
+  });
+
+  afterEach(() => db.close());
+
+  it('starts empty and separate from every other in-memory store', async () => {
+    await db.addMemory('only here');
+    const other = new DatabaseManager(IN_MEMORY_DB);
+    await other.initialize();
+    assert.equal(db.inMemory, true);
+    assert.equal((await other.listMemories(10)).length, 0);
+    await other.close();
+  });
+
+  it('keeps the previous text as a revision on update', async () => {
+    const id = await db.addMemory('Prefers tabs', { tags: ['Editor'] });
+    assert.equal(await db.updateMemory(id, 'Prefers spaces'), true);
+
+    const memory = await db.getMemory(id);
+    assert.equal(memory?.content, 'Prefers spaces');
+    assert.deepEqual(memory?.tags, ['editor']);
+    assert.deepEqual((await db.getRevisions(id)).map(revision => revision.content), ['Prefers tabs']);
+  });
+
+  it('moves deleted memories to the trash until restored', async () => {
+    const id = await db.addMemory('Temporary note');
+    assert.equal(await db.deleteMemory(id), true);
+    assert.equal(await db.deleteMemory(id), false);
+    assert.equal((await db.listMemories(10)).length, 0);
+
+    assert.equal(await db.restoreMemory(id), true);
+    assert.equal((await db.listMemories(10)).length, 1);
+    assert.deepEqual(changes.map(change => change.type), ['created', 'deleted', 'restored']);
+  });
+
+  it('rolls a failed batch back completely and announces nothing', async () => {
+    await assert.rejects(db.batch(async () => {
+      await db.addMemory('first');
+      await db.addMemory('second');
+      throw new Error('third failed');
+    }), /third failed/);
+
+    assert.equal((await db.listMemories(10)).length, 0);
+    assert.deepEqual(changes, []);
+    assert.deepEqual(await db.getAuditLog({ limit: 10 }), []);
+  });
+
+  it('announces a batch only after it commits', async () => {
+    await db.batch(async () => {
+      await db.addMemory('first');
+      await db.addMemory('second');
+      assert.deepEqual(changes, []);
+    });
+    assert.equal(changes.length, 2);
+  });
+
+  it('keeps reads from seeing a batch before it commits', async () => {
+    let inserted!: () => void;
+    let release!: () => void;
+    const insertedPromise = new Promise<void>(resolve => { inserted = resolve; });
+    const held = new Promise<void>(resolve => { release = resolve; });
+    const batch = db.batch(async () => {
+      await db.addMemory('not yet committed');
+      inserted();
+      await held;
+      throw new Error('rolled back');
+    });
+
+    await insertedPromise;
+    const seen = db.listMemories(10);
+    release();
+    await assert.rejects(batch, /rolled back/);
+    assert.deepEqual(await seen, []);
+  });
+
+  it('audits every change with its actor, newest first', async () => {
+    const id = await runAs({ client_name: 'test-client', tool: 'write', arguments: { sTool: 'NEW' } }, () => db.addMemory('v1'));
+    await db.updateMemory(id, 'v2');
+    await db.deleteMemory(id);
+    await db.purgeDeleted(0);
+
+    const log = await db.getAuditLog({ memory_id: id, limit: 10 });
+    assert.deepEqual(log.map(entry => entry.operation), ['purged', 'deleted', 'updated', 'created']);
+    assert.deepEqual(log.map(entry => [entry.before_content, entry.after_content]), [
+      ['v2', null], ['v2', null], ['v1', 'v2'], [null, 'v1']
+    ]);
+    assert.equal(log[3].client_name, 'test-client');
+    assert.deepEqual(log[3].arguments, { sTool: 'NEW' });
+    assert.equal(log[0].client_name, null);
+  });
+
+  it('refuses to delete audit log entries', async () => {
+    await db.addMemory('kept on record');
+    await assert.rejects(
+      new Promise<void>((resolve, reject) => db.db!.run('DELETE FROM audit_log', error => error ? reject(error) : resolve())),
+      /append-only/
+    );
+  });
+});
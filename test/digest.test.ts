@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Memory } from '../src/database.js';
+import { DEFAULT_IMPORTANCE } from '../src/database.js';
+import { buildDigest, estimateTokens } from '../src/digest.js';
+
+const memory = (id: number, content: string, fields: Partial<Memory> = {}): Memory => ({
+  id,
+  content,
+  created_at: '2025-06-01 09:00:00',
+  updated_at: null,
+  namespace: null,
+  tags: [],
+  importance: DEFAULT_IMPORTANCE,
+  pinned: false,
+  expires_at: null,
+  access_count: 0,
+  last_accessed_at: null,
+  language: null,
+  ...fields
+});
+
+describe('buildDigest', () => {
+  it('shows everything when the budget allows', () => {
+    const digest = buildDigest([
+      memory(1, 'Prefers dark mode', { pinned: true }),
+      memory(2, 'Deploys happen on Fridays', { namespace: 'ops' })
+    ], 2000, 'Memory digest');
+    assert.equal(digest.full, 2);
+    assert.match(digest.text, /## Pinned \(1\)\n- #1: Prefers dark mode/);
+    assert.match(digest.text, /## namespace ops \(1\)\n- #2: Deploys happen on Fridays/);
+  });
+
+  it('stays within a tiny budget by folding the groups that do not fit', () => {
+    const memories = Array.from({ length: 40 }, (_, index) =>
+      memory(index + 1, `Runbook step ${index + 1} for the service`, { namespace: `service-${index + 1}` })
+    );
+    const digest = buildDigest(memories, 100, 'Memory digest');
+
+    assert.ok(digest.tokens <= 100, `${digest.tokens} tokens`);
+    assert.equal(estimateTokens(digest.text), digest.tokens);
+    assert.equal(digest.full + digest.titles + digest.counted, memories.length);
+    assert.match(digest.text, /## \d+ more groups \(\d+ not shown\)/);
+  });
+});
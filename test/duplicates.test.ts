@@ -0,0 +1,29 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DatabaseManager } from '../src/database.js';
+import { DuplicateDetector } from '../src/duplicates.js';
+import { FastSemanticSearch } from '../src/search.js';
+import { storeWith } from './fixtures.js';
+
+describe('DuplicateDetector.findGroups', () => {
+  let db: DatabaseManager;
+  let detector: DuplicateDetector;
+
+  before(async () => {
+    db = await storeWith([
+      { id: 1, content: 'The user prefers dark mode', created_at: '2025-01-01 09:00:00' },
+      { id: 2, content: 'Coffee order: flat white', created_at: '2025-01-02 09:00:00' },
+      { id: 3, content: 'The user prefers dark mode!', pinned: true, created_at: '2025-02-01 09:00:00' }
+    ]);
+    detector = new DuplicateDetector(db, new FastSemanticSearch(db));
+  });
+
+  after(() => db.close());
+
+  it('keeps the oldest copy as the original even when a newer one is pinned', async () => {
+    const groups = await detector.findGroups();
+    assert.equal(groups.length, 1);
+    assert.equal(groups[0].original.id, 1);
+    assert.deepEqual(groups[0].duplicates.map(duplicate => duplicate.id), [3]);
+  });
+});
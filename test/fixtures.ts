@@ -0,0 +1,30 @@
+import { DatabaseManager, IN_MEMORY_DB } from '../src/database.js';
+import type { ImportedMemory } from '../src/database.js';
+
+// A developer's working notes: overlapping topics so ranking has to tell
+// exact, stemmed, synonym and typo matches apart
+export const DEVELOPER_NOTES: ImportedMemory[] = [
+  { id: 1, content: 'Production deploys run through the Kubernetes cluster on Fridays', tags: ['work', 'ops'], created_at: '2025-01-10T09:00:00Z' },
+  { id: 2, content: 'Deploying to staging happens before every production release', tags: ['work', 'ops'], created_at: '2025-02-12T09:00:00Z' },
+  { id: 3, content: 'The user prefers vim keybindings in every editor', tags: ['editor'], created_at: '2025-03-01T09:00:00Z' },
+  { id: 4, content: 'Editor settings: tabs, width 4, dark theme', tags: ['editor'], created_at: '2025-03-15T09:00:00Z' },
+  { id: 5, content: 'Weekend deploy freeze is in effect until the migration ends', namespace: 'ops', created_at: '2025-04-02T09:00:00Z' },
+  { id: 6, content: 'Known bug: the login page times out on slow networks', tags: ['work'], created_at: '2025-05-20T09:00:00Z' },
+  { id: 7, content: 'Coffee order: flat white, no sugar', created_at: '2025-06-01T09:00:00Z' }
+];
+
+// Same words, different length and importance, to isolate those signals
+export const RANKING_PAIRS: ImportedMemory[] = [
+  { id: 1, content: 'Rust async runtime notes', importance: 3 },
+  { id: 2, content: 'Rust async runtime notes, taken while comparing executors, schedulers and the trade-offs of work stealing against thread-per-core designs in several production services', importance: 3 },
+  { id: 3, content: 'Python packaging notes', importance: 1 },
+  { id: 4, content: 'Python packaging notes', importance: 5 }
+];
+
+// A fresh in-memory store holding the given memories
+export async function storeWith(memories: ImportedMemory[]): Promise<DatabaseManager> {
+  const db = new DatabaseManager(IN_MEMORY_DB);
+  await db.initialize();
+  await db.importMemories(memories, false);
+  return db;
+}
@@ -0,0 +1,51 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { loadConfig } from '../src/config.js';
+import { IN_MEMORY_DB } from '../src/database.js';
+import { InkedServer } from '../src/server.js';
+
+export const CLIENT_NAME = 'inked-test';
+
+export interface TestServer {
+  client: Client;
+  // Calls a tool the way an MCP client does; rejects on protocol errors
+  call(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  close(): Promise<void>;
+}
+
+// Runs an InkedServer whose default store lives in memory and connects an
+// MCP client to it over an in-process transport. options are server flags
+// without the leading "--", e.g. { 'on-duplicate': 'allow' }.
+export async function startTestServer(options: Record<string, string> = {}): Promise<TestServer> {
+  // Named stores other than the default still live on disk
+  const dataDir = await mkdtemp(join(tmpdir(), 'inked-test-'));
+  const config = loadConfig(new Map([['data-dir', dataDir], ['db-path', IN_MEMORY_DB], ...Object.entries(options)]), {});
+  const server = new InkedServer(config);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: CLIENT_NAME, version: '1.0.0' });
+  await client.connect(clientTransport);
+  // Loads the output schemas, so every structuredContent gets validated
+  await client.listTools();
+
+  return {
+    client,
+    async call(name, args = {}) {
+      return await client.callTool({ name, arguments: args }) as CallToolResult;
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await rm(dataDir, { recursive: true, force: true });
+    }
+  };
+}
+
+export function textOf(result: CallToolResult): string {
+  return (result.content ?? []).map(block => block.type === 'text' ? block.text : '').join('\n');
+}
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HybridSearch } from '../src/hybrid.js';
+import type { SearchResult, SemanticMatcher } from '../src/search.js';
+
+const result = (id: number, relevanceScore: number): SearchResult => ({
+  id,
+  content: `memory ${id}`,
+  created_at: '2025-06-01 09:00:00',
+  updated_at: null,
+  namespace: null,
+  tags: [],
+  importance: 3,
+  pinned: false,
+  expires_at: null,
+  access_count: 0,
+  last_accessed_at: null,
+  language: null,
+  relevanceScore,
+  matchType: 'exact'
+});
+
+const returning = (results: SearchResult[]): SemanticMatcher => ({
+  searchMemories: async () => results
+});
+
+const failing = (message: string): SemanticMatcher => ({
+  searchMemories: async () => {
+    throw new Error(message);
+  }
+});
+
+describe('HybridSearch', () => {
+  it('fuses the rankings of the matchers that work when one fails', async t => {
+    const logged = t.mock.method(console, 'error', () => {});
+    const search = new HybridSearch([
+      { name: 'lexical', matcher: returning([result(2, 5), result(1, 3)]), weight: 1 },
+      { name: 'vector', matcher: failing('model failed to load'), weight: 1 }
+    ]);
+
+    assert.deepEqual((await search.searchMemories('deploy', 3)).map(found => found.id), [2, 1]);
+    await search.searchMemories('deploy', 3);
+    assert.equal(logged.mock.callCount(), 1);
+    assert.match(String(logged.mock.calls[0].arguments.join(' ')), /vector search failed.*model failed to load/);
+  });
+
+  it('fails when every matcher fails', async () => {
+    const search = new HybridSearch([
+      { name: 'lexical', matcher: failing('Invalid search query'), weight: 1 },
+      { name: 'vector', matcher: failing('Invalid search query'), weight: 1 }
+    ]);
+    await assert.rejects(search.searchMemories('deploy AND', 3), /Invalid search query/);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lockForRewrite, markInUse } from '../src/locks.js';
+
+// Pid of a process that has already exited
+const exitedPid = () => spawnSync(process.execPath, ['-e', '']).pid;
+
+describe('store locks', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'inked-locks-'));
+    dbPath = join(dir, 'memories.db');
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('refuses a rewrite while the store is open', async () => {
+    const release = await markInUse(dbPath);
+    await assert.rejects(lockForRewrite(dbPath), new RegExp(`is open in process ${process.pid}; stop the server`));
+
+    await release();
+    await (await lockForRewrite(dbPath))();
+  });
+
+  it('refuses to open the store during a rewrite', async () => {
+    const release = await lockForRewrite(dbPath);
+    await assert.rejects(markInUse(dbPath), /is being rewritten by process/);
+    await assert.rejects(lockForRewrite(dbPath), /is already being rewritten/);
+    assert.deepEqual(await readdir(`${dbPath}.users`), []);
+
+    await release();
+    await (await markInUse(dbPath))();
+  });
+
+  it('ignores the files of processes that have exited', async () => {
+    await mkdir(`${dbPath}.users`);
+    await writeFile(join(`${dbPath}.users`, `${exitedPid()}.0`), '');
+    await writeFile(`${dbPath}.lock`, String(exitedPid()));
+
+    await (await lockForRewrite(dbPath))();
+    assert.deepEqual(await readdir(`${dbPath}.users`), []);
+    await (await markInUse(dbPath))();
+  });
+});
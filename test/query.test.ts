@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuery, plainQuery, isPlainQuery, positiveWords, matchesWithoutWords, scopeFilters } from '../src/query.js';
+
+describe('parseQuery', () => {
+  it('parses plain words as an OR', () => {
+    assert.deepEqual(parseQuery('deploy friday'), {
+      type: 'or',
+      nodes: [{ type: 'term', word: 'deploy' }, { type: 'term', word: 'friday' }]
+    });
+  });
+
+  it('splits words on punctuation like a plain search', () => {
+    assert.deepEqual(parseQuery("e-mail don't"), {
+      type: 'or',
+      nodes: ['e', 'mail', 'don', 't'].map(word => ({ type: 'term', word }))
+    });
+  });
+
+  it('requires phrases, exclusions and fields next to plain words', () => {
+    assert.deepEqual(parseQuery('deploy "dark mode" -vim tag:Work'), {
+      type: 'and',
+      nodes: [
+        { type: 'term', word: 'deploy' },
+        { type: 'phrase', words: ['dark', 'mode'] },
+        { type: 'not', node: { type: 'term', word: 'vim' } },
+        { type: 'field', field: 'tag', value: 'work' }
+      ]
+    });
+  });
+
+  it('binds AND tighter than OR and honours parentheses', () => {
+    assert.deepEqual(parseQuery('a1 AND b1 OR c1'), {
+      type: 'or',
+      nodes: [
+        { type: 'and', nodes: [{ type: 'term', word: 'a1' }, { type: 'term', word: 'b1' }] },
+        { type: 'term', word: 'c1' }
+      ]
+    });
+    assert.deepEqual(parseQuery('a1 AND (b1 OR c1)'), {
+      type: 'and',
+      nodes: [
+        { type: 'term', word: 'a1' },
+        { type: 'or', nodes: [{ type: 'term', word: 'b1' }, { type: 'term', word: 'c1' }] }
+      ]
+    });
+  });
+
+  it('treats lower-case and/or and inner hyphens as words', () => {
+    assert.equal(isPlainQuery(parseQuery('salt and pepper')), true);
+    assert.equal(isPlainQuery(parseQuery('well-known')), true);
+  });
+
+  it('parses prefixes, ids, dates and quoted tag values', () => {
+    assert.deepEqual(parseQuery('deplo*'), { type: 'prefix', prefix: 'deplo' });
+    assert.deepEqual(parseQuery('id:007'), { type: 'field', field: 'id', value: '7' });
+    assert.deepEqual(parseQuery('after:2025-06-01'), { type: 'field', field: 'after', value: '2025-06-01 00:00:00' });
+    assert.deepEqual(parseQuery('before:2025-06-01T12:00:00+02:00'), { type: 'field', field: 'before', value: '2025-06-01 10:00:00' });
+    assert.deepEqual(parseQuery('after:2025-06-01T12:00:00'), { type: 'field', field: 'after', value: '2025-06-01 12:00:00' });
+    assert.deepEqual(parseQuery('tag:"Two Words"'), { type: 'field', field: 'tag', value: 'two words' });
+  });
+
+  it('parses a query with no words to an empty OR', () => {
+    assert.deepEqual(parseQuery(' ?! '), { type: 'or', nodes: [] });
+  });
+
+  it('reports what is wrong and where', () => {
+    const cases: [string, RegExp][] = [
+      ['"open phrase', /missing closing quote for the phrase at character 1/],
+      ['a1 ""', /empty phrase at character 4/],
+      ['AND a1', /"AND" at character 1 needs a search term before it/],
+      ['a1 OR', /"OR" at character 4 needs a search term after it/],
+      ['a1 AND OR b1', /"AND" at character 4 needs a search term after it/],
+      ['(a1 b1', /unclosed "\(" at character 1/],
+      ['a1) b1', /unmatched "\)" at character 3/],
+      ['a1 ()', /empty parentheses at character 4/],
+      ['id:x', /invalid memory ID "x" at character 1/],
+      ['before:soon', /invalid date "soon" at character 1/],
+      ['tag:', /missing value after "tag:" at character 1/],
+      ['a*', /prefix "a\*" at character 1 is too short/]
+    ];
+    for (const [query, message] of cases) {
+      assert.throws(() => parseQuery(query), message, query);
+    }
+  });
+});
+
+describe('query helpers', () => {
+  it('rewrites free text as a plain query', () => {
+    assert.equal(plainQuery('Use "tabs" (not spaces) AND -never tag:x'), 'Use tabs not spaces and never tag x');
+    assert.equal(isPlainQuery(parseQuery(plainQuery('a (b "c'))), true);
+  });
+
+  it('collects the words a query looks for, leaving out exclusions', () => {
+    assert.deepEqual(positiveWords(parseQuery('deploy "dark mode" -vim kube* tag:x')), {
+      words: ['deploy', 'dark', 'mode'],
+      prefixes: ['kube']
+    });
+  });
+
+  it('knows which queries can match without their words', () => {
+    assert.equal(matchesWithoutWords(parseQuery('deploy')), false);
+    assert.equal(matchesWithoutWords(parseQuery('deploy tag:x')), false);
+    assert.equal(matchesWithoutWords(parseQuery('deploy OR tag:x')), true);
+    assert.equal(matchesWithoutWords(parseQuery('-draft')), true);
+  });
+
+  it('moves required tags and dates into the filters', () => {
+    const filters = scopeFilters(
+      { tags: ['a'], created_after: '2025-01-01' },
+      parseQuery('deploy tag:b after:2025-03-01 after:2024-01-01 before:2025-06-01')
+    );
+    assert.deepEqual(filters, { tags: ['a', 'b'], created_after: '2025-03-01 00:00:00', created_before: '2025-06-01 00:00:00' });
+    assert.deepEqual(scopeFilters({}, parseQuery('tag:a OR tag:b')), {});
+  });
+});
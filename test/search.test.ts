@@ -0,0 +1,207 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DatabaseManager } from '../src/database.js';
+import { FastSemanticSearch, levenshteinDistance } from '../src/search.js';
+import { DEVELOPER_NOTES, RANKING_PAIRS, storeWith } from './fixtures.js';
+
+const ids = (results: { id: number }[]) => results.map(result => result.id);
+
+describe('levenshteinDistance', () => {
+  it('counts single-character edits', () => {
+    assert.equal(levenshteinDistance('kitten', 'sitting'), 3);
+    assert.equal(levenshteinDistance('deploy', 'deploy'), 0);
+    assert.equal(levenshteinDistance('', 'abc'), 3);
+    assert.equal(levenshteinDistance('abc', ''), 3);
+  });
+
+  it('is symmetric', () => {
+    assert.equal(levenshteinDistance('flaw', 'lawn'), levenshteinDistance('lawn', 'flaw'));
+  });
+});
+
+describe('FastSemanticSearch ranking', () => {
+  let db: DatabaseManager;
+  let search: FastSemanticSearch;
+
+  before(async () => {
+    db = await storeWith(DEVELOPER_NOTES);
+    search = new FastSemanticSearch(db);
+  });
+
+  after(() => db.close());
+
+  it('finds stemmed forms of a word', async () => {
+    const results = await search.searchMemories('deploying', 10);
+    assert.deepEqual(ids(results).sort(), [1, 2, 5]);
+  });
+
+  it('ranks an exact word above a partial one', async () => {
+    const [top] = await search.searchMemories('kubernetes', 3);
+    assert.equal(top.id, 1);
+    assert.equal(top.matchType, 'exact');
+  });
+
+  it('matches synonyms from the vocabulary', async () => {
+    const results = await search.searchMemories('configuration', 3);
+    assert.deepEqual(ids(results), [4]);
+    assert.equal(results[0].matchType, 'semantic');
+  });
+
+  it('tolerates typos', async () => {
+    const [top] = await search.searchMemories('kubernetse', 3);
+    assert.equal(top.id, 1);
+  });
+
+  it('ranks memories matching more query words first', async () => {
+    const [top] = await search.searchMemories('production staging release', 3);
+    assert.equal(top.id, 2);
+  });
+
+  it('explains the score it returns', async () => {
+    const [top] = await search.searchMemories('vim editor', 1);
+    const { terms, length, multiTerm, importance, recency, usage, total } = top.explanation!;
+    assert.equal(top.relevanceScore, total);
+    assert.ok(Math.abs((terms * length + multiTerm) * importance * recency * usage - total) < 0.05);
+  });
+
+  it('returns nothing for a query of stop words', async () => {
+    assert.deepEqual(await search.searchMemories('the and of', 10), []);
+  });
+
+  it('lists every memory for ALL', async () => {
+    const results = await search.searchMemories('ALL', 100);
+    assert.equal(results.length, DEVELOPER_NOTES.length);
+  });
+
+  it('applies filters before ranking', async () => {
+    const results = await search.searchMemories('deploy', 10, { namespace: 'ops' });
+    assert.deepEqual(ids(results), [5]);
+  });
+
+  it('searches inside a batch while a search outside it waits', { timeout: 5000 }, async () => {
+    const fresh = new FastSemanticSearch(db);
+    const inside = db.batch(() => fresh.searchMemories('kubernetes', 1));
+    const outside = fresh.searchMemories('kubernetes', 1);
+    assert.deepEqual(ids(await inside), [1]);
+    assert.deepEqual(ids(await outside), [1]);
+  });
+});
+
+describe('FastSemanticSearch scoring signals', () => {
+  let db: DatabaseManager;
+  let search: FastSemanticSearch;
+
+  before(async () => {
+    db = await storeWith(RANKING_PAIRS);
+    search = new FastSemanticSearch(db);
+  });
+
+  after(() => db.close());
+
+  it('prefers shorter memories for the same match', async () => {
+    const results = await search.searchMemories('rust async', 2);
+    assert.deepEqual(ids(results), [1, 2]);
+    assert.ok(results[0].explanation!.length > results[1].explanation!.length);
+  });
+
+  it('prefers more important memories for the same text', async () => {
+    const results = await search.searchMemories('python packaging', 2);
+    assert.deepEqual(ids(results), [4, 3]);
+    assert.equal(results[0].explanation!.terms, results[1].explanation!.terms);
+  });
+});
+
+describe('FastSemanticSearch paging', () => {
+  let db: DatabaseManager;
+
+  before(async () => {
+    db = await storeWith(Array.from({ length: 250 }, (_, index) => ({ content: `Deploy note number ${index + 1}` })));
+  });
+
+  after(() => db.close());
+
+  it('ranks as many matches as a deep page reaches', async () => {
+    const results = await new FastSemanticSearch(db).searchMemories('deploy', 300);
+    assert.equal(results.length, 250);
+  });
+});
+
+describe('FastSemanticSearch query syntax', () => {
+  let db: DatabaseManager;
+  let search: FastSemanticSearch;
+
+  before(async () => {
+    db = await storeWith(DEVELOPER_NOTES);
+    search = new FastSemanticSearch(db);
+  });
+
+  after(() => db.close());
+
+  const find = async (query: string) => ids(await search.searchMemories(query, 100)).sort((a, b) => a - b);
+
+  it('matches exact phrases only in order', async () => {
+    assert.deepEqual(await find('"production release"'), [2]);
+    assert.deepEqual(await find('"release production"'), []);
+  });
+
+  it('excludes words and their other forms', async () => {
+    assert.deepEqual(await find('deploy -staging'), [1, 5]);
+    assert.deepEqual(await find('deploy -freezing'), [1, 2]);
+  });
+
+  it('requires both sides of AND and either side of OR', async () => {
+    assert.deepEqual(await find('deploy AND kubernetes'), [1]);
+    assert.deepEqual(await find('deploy AND (kubernetes OR weekend)'), [1, 5]);
+    assert.deepEqual(await find('coffee OR vim'), [3, 7]);
+  });
+
+  it('matches word prefixes', async () => {
+    assert.deepEqual(await find('kube*'), [1]);
+  });
+
+  it('filters by tag, id and creation date', async () => {
+    assert.deepEqual(await find('tag:editor'), [3, 4]);
+    assert.deepEqual(await find('id:6'), [6]);
+    assert.deepEqual(await find('after:2025-05-01'), [6, 7]);
+    assert.deepEqual(await find('before:2025-02-01'), [1]);
+    assert.deepEqual(await find('deploy tag:work -tag:editor after:2025-02-01'), [2]);
+    assert.deepEqual(await find('after:2025-06-01T08:30:00'), [7]);
+    assert.deepEqual(await find('before:2025-06-01T09:30:00+01:00'), [1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(await find('coffee OR -after:2025-06-01T08:30:00'), [1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('lists memories without the excluded word when nothing else is asked', async () => {
+    assert.deepEqual(await find('-deploy -editor'), [6, 7]);
+  });
+
+  it('rejects malformed queries with the position of the problem', async () => {
+    await assert.rejects(search.searchMemories('"deploy', 3), /missing closing quote for the phrase at character 1/);
+    await assert.rejects(search.searchMemories('deploy OR', 3), /"OR" at character 8 needs a search term after it/);
+  });
+});
+
+describe('FastSemanticSearch.similarity', () => {
+  let db: DatabaseManager;
+  let search: FastSemanticSearch;
+
+  before(async () => {
+    db = await storeWith([]);
+    search = new FastSemanticSearch(db);
+  });
+
+  after(() => db.close());
+
+  it('is 1 for the same text and low for unrelated text', () => {
+    assert.equal(search.similarity('Prefers dark mode', 'Prefers dark mode'), 1);
+    assert.ok(search.similarity('Prefers dark mode', 'Coffee order: flat white') < 0.3);
+  });
+
+  it('scores rewordings and typos as near-duplicates', () => {
+    assert.ok(search.similarity('The user prefers dark mode', 'the user prefers dark mode!') > 0.9);
+    assert.ok(search.similarity('Deploys happen on Fridays', 'Deploys happen on Firdays') > 0.85);
+  });
+
+  it('keeps short facts that differ in one word apart', () => {
+    assert.ok(search.similarity('Standup meeting is on Monday at 10am', 'Standup meeting is on Friday at 10am') < 0.85);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ReadOutput, WriteOutput, BatchWriteOutput } from '../src/tools.js';
+import { startTestServer, textOf, CLIENT_NAME } from './harness.js';
+import type { TestServer } from './harness.js';
+
+describe('MCP server', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+
+  afterEach(() => server.close());
+
+  const write = async (args: Record<string, unknown>) => {
+    const result = await server.call('write', args);
+    assert.ok(!result.isError, textOf(result));
+    return result.structuredContent as WriteOutput;
+  };
+
+  const read = async (args: Record<string, unknown>) => {
+    const result = await server.call('read', args);
+    assert.ok(!result.isError, textOf(result));
+    return result.structuredContent as ReadOutput;
+  };
+
+  it('lists every tool with an input schema', async () => {
+    const { tools } = await server.client.listTools();
+    assert.deepEqual(
+      tools.map(tool => tool.name).sort(),
+      ['audit', 'digest', 'duplicates', 'export', 'import', 'read', 'vocabulary', 'write']
+    );
+    for (const tool of tools) {
+      assert.equal(tool.inputSchema.type, 'object', tool.name);
+    }
+  });
+
+  it('saves a memory and finds it again', async () => {
+    const saved = await write({ content: 'The user prefers dark mode', sTool: 'NEW', tags: ['ui'] });
+    assert.equal(saved.action, 'created');
+
+    const { results } = await read({ search: 'dark mode' });
+    assert.equal(results.length, 1);
+    assert.equal(results[0].id, saved.id);
+    assert.deepEqual(results[0].metadata.tags, ['ui']);
+  });
+
+  it('updates a memory by id and keeps its history', async () => {
+    const { id } = await write({ content: 'Deploys happen on Fridays', sTool: 'NEW' });
+    const updated = await write({ id, content: 'Deploys happen on Thursdays', sTool: 'UPDATE' });
+    assert.equal(updated.action, 'updated');
+
+    const { results } = await read({ search: 'deploys', history: true });
+    assert.equal(results[0].content, 'Deploys happen on Thursdays');
+    assert.deepEqual(results[0].metadata.revisions?.map(revision => revision.content), ['Deploys happen on Fridays']);
+  });
+
+  it('only deletes by search after confirmation', async () => {
+    const { id } = await write({ content: 'Coffee order: flat white', sTool: 'NEW' });
+
+    const preview = await write({ content: 'coffee', sTool: 'DELETE' });
+    assert.equal(preview.action, 'confirm_delete');
+    assert.deepEqual(preview.candidates?.map(candidate => candidate.id), [id]);
+    assert.equal((await read({ search: 'coffee' })).results.length, 1);
+
+    const deleted = await write({ content: 'coffee', sTool: 'DELETE', confirm: preview.confirm });
+    assert.equal(deleted.action, 'deleted');
+    assert.equal((await read({ search: 'coffee' })).results.length, 0);
+
+    const reused = await server.call('write', { content: 'coffee', sTool: 'DELETE', confirm: preview.confirm });
+    assert.equal(reused.isError, true);
+    assert.match(textOf(reused), /invalid or has expired/);
+
+    await write({ id, content: 'restore', sTool: 'UNDELETE' });
+    assert.equal((await read({ search: 'coffee' })).results.length, 1);
+  });
+
+  it('fails a DELETE by search that matches nothing', async () => {
+    const result = await server.call('write', { content: 'nonexistent', sTool: 'DELETE' });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /No memory found matching "nonexistent"/);
+  });
+
+  it('reads a DELETE search as plain words, not query syntax', async () => {
+    const { id } = await write({ content: 'Use tabs, not spaces (team rule)', sTool: 'NEW' });
+    const preview = await write({ content: 'tabs -spaces (team', sTool: 'DELETE' });
+    assert.deepEqual(preview.candidates?.map(candidate => candidate.id), [id]);
+  });
+
+  it('applies a batch of writes all or nothing', async () => {
+    const failed = await server.call('write', {
+      operations: [
+        { content: 'first', sTool: 'NEW' },
+        { content: 'gone', sTool: 'DELETE', id: 999 }
+      ]
+    });
+    assert.equal(failed.isError, true);
+    const output = failed.structuredContent as BatchWriteOutput;
+    assert.equal(output.committed, false);
+    assert.deepEqual(output.operations.map(operation => operation.status), ['rolled_back', 'failed']);
+    assert.equal((await read({ search: 'ALL' })).results.length, 0);
+  });
+
+  it('leaves a memory unchanged when its update links it to itself', async () => {
+    const { id } = await write({ content: 'Standup is at 10am', sTool: 'NEW' });
+
+    const byId = await server.call('write', { id, content: 'Standup is at 9am', sTool: 'UPDATE', links: [{ id, relation: 'relates_to' }] });
+    assert.equal(byId.isError, true);
+    assert.match(textOf(byId), /Cannot link memory \d+ to itself/);
+
+    const bySearch = await server.call('write', { content: 'Standup is at 9am', sTool: 'UPDATE', links: [{ id, relation: 'relates_to' }] });
+    assert.equal(bySearch.isError, true);
+    assert.match(textOf(bySearch), /cannot link to itself/);
+
+    const { results } = await read({ search: 'standup', history: true });
+    assert.equal(results[0].content, 'Standup is at 10am');
+    assert.equal(results[0].metadata.revisions?.length ?? 0, 0);
+  });
+
+  it('reports invalid arguments as a tool error', async () => {
+    const result = await server.call('write', { content: 'missing sTool' });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /^Tool execution failed:/);
+  });
+
+  it('only accepts a positive ttl', async () => {
+    for (const ttl of ['0m', '00h', '-1d']) {
+      const result = await server.call('write', { content: 'Short-lived note', sTool: 'NEW', ttl });
+      assert.equal(result.isError, true, ttl);
+      assert.match(textOf(result), /ttl must be a positive number/);
+    }
+    assert.equal((await write({ content: 'Short-lived note', sTool: 'NEW', ttl: '1h' })).action, 'created');
+  });
+
+  it('reads an expires_at without a zone as UTC', async () => {
+    const utc = (offsetMs: number) => new Date(Date.now() + offsetMs).toISOString().slice(0, 19);
+
+    const past = await server.call('write', { content: 'Expired note', sTool: 'NEW', expires_at: utc(-30 * 60 * 1000) });
+    assert.equal(past.isError, true);
+    assert.match(textOf(past), /is in the past/);
+
+    const invalid = await server.call('write', { content: 'Expired note', sTool: 'NEW', expires_at: 'next week' });
+    assert.equal(invalid.isError, true);
+    assert.match(textOf(invalid), /Must be an ISO 8601 date/);
+
+    assert.equal((await write({ content: 'Expiring note', sTool: 'NEW', expires_at: utc(30 * 60 * 1000) })).action, 'created');
+  });
+
+  it('reports malformed queries as a tool error', async () => {
+    const result = await server.call('read', { search: 'deploy AND' });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Invalid search query: "AND" at character 8 needs a search term after it/);
+  });
+
+  it('rejects unknown tools with a protocol error', async () => {
+    await assert.rejects(server.call('remember', {}), (error: unknown) =>
+      error instanceof McpError && error.code === ErrorCode.MethodNotFound && /Unknown tool: remember/.test(error.message)
+    );
+  });
+
+  it('attributes changes to the calling client in the audit log', async () => {
+    const { id } = await write({ content: 'Audited memory', sTool: 'NEW' });
+    const result = await server.call('audit', { memory_id: id });
+    assert.ok(!result.isError, textOf(result));
+    assert.match(textOf(result), new RegExp(`created memory ${id} by ${CLIENT_NAME} 1\\.0\\.0 via write`));
+  });
+
+  it('keeps export and import files inside the exports directory', async () => {
+    await write({ content: 'Backed up memory', sTool: 'NEW' });
+    const exported = await server.call('export', { path: 'backup.json' });
+    assert.ok(!exported.isError, textOf(exported));
+
+    const again = await server.call('export', { path: 'backup.json' });
+    assert.equal(again.isError, true);
+    assert.match(textOf(again), /already exists/);
+
+    for (const path of ['../outside.json', '/tmp/outside.json']) {
+      const result = await server.call('export', { path });
+      assert.equal(result.isError, true, path);
+      assert.match(textOf(result), /is outside/);
+    }
+    const escaped = await server.call('import', { path: '/etc/hostname' });
+    assert.equal(escaped.isError, true);
+    assert.match(textOf(escaped), /is outside|does not exist/);
+
+    const imported = await server.call('import', { path: 'backup.json', mode: 'replace' });
+    assert.ok(!imported.isError, textOf(imported));
+    assert.match(textOf(imported), /Imported 1 of 1/);
+  });
+
+  it('keeps named stores apart', async () => {
+    await write({ content: 'Personal note', sTool: 'NEW', store: 'personal' });
+    assert.equal((await read({ search: 'ALL' })).results.length, 0);
+    assert.equal((await read({ search: 'ALL', store: 'personal' })).results.length, 1);
+  });
+});
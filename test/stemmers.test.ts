@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { stem } from '../src/stemmers.js';
+
+const stems = (words: string[]) => words.map(word => stem(word, 'en'));
+
+describe('Porter stemmer', () => {
+  it('restores a final e after a short consonant-vowel-consonant stem', () => {
+    assert.deepEqual(stems(['hoping', 'hoped', 'hope']), ['hope', 'hope', 'hope']);
+    assert.deepEqual(stems(['filing', 'filed', 'file']), ['file', 'file', 'file']);
+    assert.deepEqual(stems(['hopping', 'hop', 'failing']), ['hop', 'hop', 'fail']);
+  });
+
+  it('drops a final e after a longer stem', () => {
+    assert.deepEqual(stems(['rebate', 'rebated', 'rebating']), ['rebat', 'rebat', 'rebat']);
+    assert.deepEqual(stems(['develope', 'developing', 'develop']), ['develop', 'develop', 'develop']);
+  });
+
+  it('keeps words of one or two letters', () => {
+    assert.deepEqual(stems(['a', 'is']), ['a', 'is']);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseManager, IN_MEMORY_DB } from '../src/database.js';
+import { exportMemories, importMemories, parseExport } from '../src/transfer.js';
+
+describe('importMemories', () => {
+  let db: DatabaseManager;
+
+  beforeEach(async () => {
+    db = new DatabaseManager(IN_MEMORY_DB);
+    await db.initialize();
+  });
+
+  afterEach(() => db.close());
+
+  it('stores dates the way SQLite writes them', async () => {
+    await importMemories(db, [
+      { content: 'From an ISO export', created_at: '2025-06-01T12:30:00+02:00', expires_at: '2099-01-01' },
+      { content: 'From a SQLite export', created_at: '2025-06-01 10:30:00' }
+    ], 'merge');
+
+    const memories = await db.getAllMemories();
+    assert.deepEqual(memories.map(memory => memory.created_at), ['2025-06-01 10:30:00', '2025-06-01 10:30:00']);
+    assert.equal(memories[0].expires_at, '2099-01-01 00:00:00');
+  });
+
+  it('skips and reports records with unreadable dates, importing the rest', async () => {
+    const report = await importMemories(db, [
+      { content: 'Good record' },
+      { content: 'Bad expiry', expires_at: 'next week' },
+      { content: 'Bad creation date', created_at: 'yesterday' }
+    ], 'merge');
+
+    assert.equal(report.imported, 1);
+    assert.deepEqual(report.skipped.map(skip => skip.index), [2, 3]);
+    assert.match(report.skipped[0].reason, /expires_at: Invalid date "next week"/);
+    assert.deepEqual((await db.getAllMemories()).map(memory => memory.content), ['Good record']);
+  });
+
+  it('keeps timestamps unchanged through an export and re-import', async () => {
+    await importMemories(db, [{ content: 'Round trip', created_at: '2025-03-04 05:06:07', expires_at: '2099-05-06 07:08:09' }], 'merge');
+    const exported = await exportMemories(db, 'jsonl');
+
+    await importMemories(db, parseExport(exported, 'jsonl'), 'replace');
+    const [memory] = await db.getAllMemories();
+    assert.equal(memory.created_at, '2025-03-04 05:06:07');
+    assert.equal(memory.expires_at, '2099-05-06 07:08:09');
+  });
+
+  it('keeps any content, tags and namespace through a Markdown export and re-import', async () => {
+    const originals = [
+      { content: 'Release notes\n\n## Memory 9\n\nstill the same memory', tags: ['line\nbreak', 'notes, drafts'], namespace: 'team, ops' },
+      { content: '- Tags: not a field\n- Pinned: yes', namespace: '"quoted"' },
+      { content: 'Run it like this:\n\n```bash\nnpm test\n```\n\nThen ```` four backticks' }
+    ];
+    await importMemories(db, originals, 'merge');
+    const exported = await exportMemories(db, 'markdown');
+
+    await importMemories(db, parseExport(exported, 'markdown'), 'replace');
+    const memories = await db.getAllMemories();
+    assert.deepEqual(memories.map(memory => memory.content), originals.map(original => original.content));
+    assert.deepEqual(memories.map(memory => memory.tags), [['line\nbreak', 'notes, drafts'], [], []]);
+    assert.deepEqual(memories.map(memory => memory.namespace), ['team, ops', '"quoted"', null]);
+    assert.equal(memories[1].pinned, false);
+  });
+
+  it('still reads Markdown exports without fenced content', async () => {
+    const legacy = '# Inked memories\n\n## Memory 1\n\n- Created: 2025-01-01 09:00:00\n- Namespace: ops\n- Tags: work, deploy\n\nDeploys run on Fridays\n\n## Memory 2\n\n- Created: 2025-01-02 09:00:00\n\n```\ncode first\n```\nthen text\n';
+    assert.deepEqual(parseExport(legacy, 'markdown'), [
+      { id: 1, created_at: '2025-01-01 09:00:00', namespace: 'ops', tags: ['work', 'deploy'], content: 'Deploys run on Fridays' },
+      { id: 2, created_at: '2025-01-02 09:00:00', content: '```\ncode first\n```\nthen text' }
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DatabaseManager } from '../src/database.js';
+import { createEmbedder } from '../src/embeddings.js';
+import type { Embedder } from '../src/embeddings.js';
+import { FastSemanticSearch } from '../src/search.js';
+import { VectorSearch } from '../src/vector.js';
+import { DEVELOPER_NOTES, storeWith } from './fixtures.js';
+
+describe('VectorSearch', () => {
+  let db: DatabaseManager;
+  let vectors: VectorSearch;
+
+  before(async () => {
+    db = await storeWith(DEVELOPER_NOTES);
+    vectors = new VectorSearch(db, createEmbedder('hash'), new FastSemanticSearch(db));
+  });
+
+  after(async () => {
+    await vectors.stop();
+    await db.close();
+  });
+
+  it('searches inside a batch while the backfill is still running', { timeout: 5000 }, async () => {
+    const backfill = vectors.sync();
+    await db.batch(() => vectors.searchMemories('deploy', 3));
+    await backfill;
+
+    const results = await vectors.searchMemories('kubernetes cluster', 3);
+    assert.equal(results[0].id, 1);
+  });
+
+  it('searches without waiting for the backfill', { timeout: 5000 }, async () => {
+    const store = await storeWith(DEVELOPER_NOTES);
+    const hash = createEmbedder('hash');
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    // Backfill calls embed several memories at once; those wait for release
+    const slow: Embedder = {
+      id: hash.id,
+      embed: async texts => {
+        if (texts.length > 1) {
+          await released;
+        }
+        return hash.embed(texts);
+      }
+    };
+    const backfilling = new VectorSearch(store, slow, new FastSemanticSearch(store));
+
+    assert.deepEqual(await backfilling.searchMemories('kubernetes', 3), []);
+    release();
+    await backfilling.stop();
+    await store.close();
+  });
+
+  it('falls back to text results when the query cannot be embedded', async t => {
+    t.mock.method(console, 'error', () => {});
+    const broken: Embedder = {
+      id: 'broken',
+      embed: async () => {
+        throw new Error('model failed to load');
+      }
+    };
+    const text = new FastSemanticSearch(db);
+    const brokenSearch = new VectorSearch(db, broken, text);
+    const results = await brokenSearch.searchMemories('kubernetes', 3);
+    await brokenSearch.stop();
+    assert.deepEqual(results.map(result => result.id), (await text.searchMemories('kubernetes', 3)).map(result => result.id));
+    assert.equal(results[0].id, 1);
+  });
+
+  it('writes no vectors when read-only', async () => {
+    const store = await storeWith(DEVELOPER_NOTES);
+    const embedder = createEmbedder('hash');
+    const readOnly = new VectorSearch(store, embedder, new FastSemanticSearch(store), true);
+
+    await readOnly.sync();
+    await readOnly.searchMemories('kubernetes', 3);
+    await readOnly.indexMemory(1, DEVELOPER_NOTES[0].content);
+    await readOnly.stop();
+    assert.equal((await store.getUnembeddedMemories(embedder.id, 100)).length, DEVELOPER_NOTES.length);
+    await store.close();
+  });
+
+  it('lets a running backfill finish before its store closes', async () => {
+    const store = await storeWith(DEVELOPER_NOTES);
+    const backfilling = new VectorSearch(store, createEmbedder('hash'), new FastSemanticSearch(store));
+    const backfill = backfilling.sync();
+    await backfilling.stop();
+    await store.close();
+    await backfill;
+    await backfilling.sync();
+  });
+});